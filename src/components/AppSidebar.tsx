@@ -1,37 +1,64 @@
 
-import React from 'react';
-import { Upload, FileText, Settings } from 'lucide-react';
-import { useStore } from '../store/useStore';
-import { PDFDocument } from '../types';
+import React, { useEffect, useState } from 'react';
+import { Upload, FileText, Settings, FolderOpen, X, CheckCircle2, AlertCircle, Copy, Search } from 'lucide-react';
+import { UploadItem } from '../types';
+import { usePdfUpload } from '../hooks/use-pdf-upload';
+import { collectDroppedFiles, formatFileSize } from '../lib/upload';
+import { Progress } from '@/components/ui/progress';
 import {
   Sidebar,
   SidebarContent,
+  SidebarFooter,
   SidebarGroup,
   SidebarGroupContent,
-  SidebarGroupLabel,
   SidebarHeader,
-  SidebarMenu,
-  SidebarMenuButton,
-  SidebarMenuItem,
   useSidebar,
 } from '@/components/ui/sidebar';
+import DocumentList from './DocumentList';
+import LibrarySearchDialog from './LibrarySearchDialog';
+import SettingsDialog from './SettingsDialog';
+
+// React does not know the non-standard attribute that turns a file input into a folder picker
+const enableFolderSelection = (input: HTMLInputElement | null) => input?.setAttribute('webkitdirectory', '');
+
+const UploadRow = ({ item }: { item: UploadItem }) => (
+  <li className="text-xs">
+    <div className="flex items-center gap-1.5">
+      {item.status === 'added' && <CheckCircle2 className="h-3.5 w-3.5 flex-shrink-0 text-green-600" />}
+      {item.status === 'duplicate' && <Copy className="h-3.5 w-3.5 flex-shrink-0 text-amber-600" />}
+      {item.status === 'error' && <AlertCircle className="h-3.5 w-3.5 flex-shrink-0 text-red-600" />}
+      {(item.status === 'pending' || item.status === 'reading') && (
+        <FileText className="h-3.5 w-3.5 flex-shrink-0 text-gray-400" />
+      )}
+      <span className="truncate text-gray-700" title={item.name}>{item.name}</span>
+      <span className="ml-auto flex-shrink-0 text-gray-400">{formatFileSize(item.size)}</span>
+    </div>
+    {item.status === 'reading' && <Progress value={item.progress} className="mt-1 h-1" />}
+    {item.error && <p className={`mt-0.5 pl-5 ${item.status === 'duplicate' ? 'text-amber-700' : 'text-red-600'}`}>{item.error}</p>}
+  </li>
+);
 
 const AppSidebar = () => {
-  const { documents, currentDocument, addDocument, setCurrentDocument } = useStore();
   const { state } = useSidebar();
+  const { uploads, uploadFiles, clearUploads } = usePdfUpload();
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && !e.altKey && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen((open) => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && file.type === 'application/pdf') {
-      const document: PDFDocument = {
-        id: Date.now().toString(),
-        name: file.name,
-        file: file,
-        url: URL.createObjectURL(file),
-      };
-      addDocument(document);
-      setCurrentDocument(document);
-    }
+    if (event.target.files) uploadFiles(event.target.files);
+    // Allow picking the same files again
+    event.target.value = '';
   };
 
   const handleDragOver = (event: React.DragEvent) => {
@@ -40,19 +67,16 @@ const AppSidebar = () => {
 
   const handleDrop = (event: React.DragEvent) => {
     event.preventDefault();
-    const file = event.dataTransfer.files[0];
-    if (file && file.type === 'application/pdf') {
-      const document: PDFDocument = {
-        id: Date.now().toString(),
-        name: file.name,
-        file: file,
-        url: URL.createObjectURL(file),
-      };
-      addDocument(document);
-      setCurrentDocument(document);
-    }
+    collectDroppedFiles(event.dataTransfer)
+      .then(uploadFiles)
+      .catch((error) => console.error('Failed to read dropped files:', error));
   };
 
+  const isInProgress = (item: UploadItem) => item.status === 'pending' || item.status === 'reading';
+  const isUploading = uploads.some(isInProgress);
+  const finishedCount = uploads.length - uploads.filter(isInProgress).length;
+  const addedCount = uploads.filter((item) => item.status === 'added').length;
+
   const isCollapsed = state === "collapsed";
 
   return (
@@ -66,6 +90,22 @@ const AppSidebar = () => {
             <span className="font-semibold text-gray-900">Documents</span>
           </div>
         )}
+        <button
+          onClick={() => setIsSearchOpen(true)}
+          title="Search all documents (Ctrl+K)"
+          className={`flex items-center gap-2 rounded-lg border border-gray-200 bg-white text-sm text-gray-500 hover:border-gray-300 hover:text-gray-700 transition-colors ${
+            isCollapsed ? 'justify-center p-2' : 'mt-3 w-full px-3 py-1.5'
+          }`}
+        >
+          <Search className="h-4 w-4 flex-shrink-0" />
+          {!isCollapsed && (
+            <>
+              <span>Search library</span>
+              <kbd className="ml-auto rounded border border-gray-200 bg-gray-50 px-1.5 text-[10px] font-medium text-gray-500">⌘K</kbd>
+            </>
+          )}
+        </button>
+        <LibrarySearchDialog open={isSearchOpen} onOpenChange={setIsSearchOpen} />
       </SidebarHeader>
 
       <SidebarContent className="p-0">
@@ -81,67 +121,93 @@ const AppSidebar = () => {
               <Upload className={`mx-auto text-blue-500 mb-2 ${isCollapsed ? 'h-6 w-6' : 'h-8 w-8'}`} />
               {!isCollapsed && (
                 <>
-                  <p className="text-sm text-gray-600 mb-2">Drag & drop PDF files here</p>
-                  <label className="cursor-pointer">
-                    <span className="text-blue-600 hover:text-blue-500 text-sm font-medium">
-                      Choose files
-                    </span>
-                    <input
-                      type="file"
-                      accept=".pdf"
-                      onChange={handleFileUpload}
-                      className="hidden"
-                    />
-                  </label>
+                  <p className="text-sm text-gray-600 mb-2">Drag & drop PDF files or folders here</p>
+                  <div className="flex items-center justify-center gap-3">
+                    <label className="cursor-pointer">
+                      <span className="text-blue-600 hover:text-blue-500 text-sm font-medium">
+                        Choose files
+                      </span>
+                      <input
+                        type="file"
+                        accept=".pdf,application/pdf"
+                        multiple
+                        onChange={handleFileUpload}
+                        className="hidden"
+                      />
+                    </label>
+                    <label className="cursor-pointer flex items-center gap-1 text-blue-600 hover:text-blue-500 text-sm font-medium">
+                      <FolderOpen className="h-3.5 w-3.5" />
+                      Folder
+                      <input
+                        ref={enableFolderSelection}
+                        type="file"
+                        multiple
+                        onChange={handleFileUpload}
+                        className="hidden"
+                      />
+                    </label>
+                  </div>
                 </>
               )}
               {isCollapsed && (
                 <label className="cursor-pointer">
                   <input
                     type="file"
-                    accept=".pdf"
+                    accept=".pdf,application/pdf"
+                    multiple
                     onChange={handleFileUpload}
                     className="hidden"
                   />
                 </label>
               )}
             </div>
+
+            {!isCollapsed && uploads.length > 0 && (
+              <div className="mt-3 rounded-lg border border-gray-200 bg-white p-2">
+                <div className="mb-1.5 flex items-center justify-between text-xs font-medium text-gray-600">
+                  <span>
+                    {isUploading
+                      ? `Uploading ${finishedCount + 1} of ${uploads.length}`
+                      : `${addedCount} of ${uploads.length} added`}
+                  </span>
+                  {!isUploading && (
+                    <button onClick={clearUploads} title="Dismiss" className="p-0.5 rounded text-gray-400 hover:text-gray-600">
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                </div>
+                <ul className="max-h-48 space-y-1.5 overflow-y-auto">
+                  {uploads.map((item) => (
+                    <UploadRow key={item.id} item={item} />
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
 
           {!isCollapsed && (
             <SidebarGroupContent>
               <div className="px-4 pb-4">
-                <SidebarGroupLabel className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
-                  Recent Files
-                </SidebarGroupLabel>
-                <SidebarMenu>
-                  {documents.map((doc) => (
-                    <SidebarMenuItem key={doc.id}>
-                      <SidebarMenuButton
-                        onClick={() => setCurrentDocument(doc)}
-                        className={`w-full justify-start gap-3 p-3 rounded-lg transition-all ${
-                          currentDocument?.id === doc.id
-                            ? 'bg-blue-100 text-blue-700 border border-blue-200'
-                            : 'hover:bg-gray-50'
-                        }`}
-                      >
-                        <FileText className="h-4 w-4 flex-shrink-0" />
-                        <span className="text-sm truncate">{doc.name}</span>
-                      </SidebarMenuButton>
-                    </SidebarMenuItem>
-                  ))}
-                  {documents.length === 0 && (
-                    <div className="text-center py-8">
-                      <FileText className="h-8 w-8 text-gray-300 mx-auto mb-2" />
-                      <p className="text-sm text-gray-500">No documents uploaded yet</p>
-                    </div>
-                  )}
-                </SidebarMenu>
+                <DocumentList />
               </div>
             </SidebarGroupContent>
           )}
         </SidebarGroup>
       </SidebarContent>
+
+      <SidebarFooter className="border-t border-gray-200 p-2">
+        <button
+          onClick={() => setIsSettingsOpen(true)}
+          title="Settings"
+          className={`flex items-center gap-2 rounded-lg text-sm text-gray-600 hover:bg-gray-100 hover:text-gray-900 transition-colors ${
+            isCollapsed ? 'justify-center p-2' : 'w-full px-3 py-2'
+          }`}
+        >
+          <Settings className="h-4 w-4 flex-shrink-0" />
+          {!isCollapsed && <span>Settings</span>}
+        </button>
+        <SettingsDialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen} />
+      </SidebarFooter>
     </Sidebar>
   );
 };
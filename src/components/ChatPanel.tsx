@@ -1,12 +1,162 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Sparkles } from 'lucide-react';
-import { useStore } from '../store/useStore';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, Bot, User, Sparkles, Square, Quote, X, WifiOff } from 'lucide-react';
+import { useStore, selectActiveThread, isSameScope, LIBRARY_CONVERSATION_ID } from '../store/useStore';
+import ChatThreadBar from './ChatThreadBar';
+import { useOnlineStatus } from '../hooks/use-online-status';
+import { createChatProvider, getChatConfig, isUnreachableError } from '../lib/chat';
+import { getRetrievalConfig, RetrievalSource, searchDocuments, toContextPassages } from '../lib/retrieval';
+import { extractCitations, splitCitationMarkers, toCitation } from '../lib/chat/citations';
+import { ChatMessage, ChatQuote, Citation, PDFDocument, TextChunk, ThreadRef } from '../types';
 
-const ChatPanel = () => {
-  const { messages, currentDocument, addMessage, isLoading, setLoading } = useStore();
+const TypingIndicator = () => (
+  <div className="flex space-x-1 py-1.5">
+    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
+    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{animationDelay: '0.1s'}}></div>
+    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></div>
+  </div>
+);
+
+// Only set in multi-document chats, where the page alone is ambiguous
+type DocumentNameLookup = (documentId: string | undefined) => string | undefined;
+
+interface CitationChipProps {
+  citation: Citation;
+  documentName?: string;
+  onClick: (citation: Citation) => void;
+}
+
+const CitationChip = ({ citation, documentName, onClick }: CitationChipProps) => (
+  <button
+    type="button"
+    onClick={() => onClick(citation)}
+    title={`Show source on page ${citation.pageNumber}${documentName ? ` of ${documentName}` : ''}`}
+    className="inline-flex items-center max-w-full mx-0.5 px-1.5 py-0.5 rounded-md bg-blue-50 text-blue-700 text-xs font-medium border border-blue-100 hover:bg-blue-100 transition-colors align-baseline"
+  >
+    {documentName && <span className="truncate max-w-[10rem] mr-1">{documentName} ·</span>}
+    <span className="whitespace-nowrap">p. {citation.pageNumber}</span>
+  </button>
+);
+
+interface MessageTextProps {
+  message: ChatMessage;
+  getDocumentName?: DocumentNameLookup;
+  onCitationClick: (citation: Citation) => void;
+}
+
+const MessageText = ({ message, getDocumentName, onCitationClick }: MessageTextProps) => {
+  if (message.role === 'user' || !message.citations?.length) {
+    return <>{message.text}</>;
+  }
+
+  const byLabel = new Map(message.citations.map((citation) => [citation.label, citation]));
+  return (
+    <>
+      {splitCitationMarkers(message.text).map((segment, index) => {
+        if (segment.type === 'text') return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+        const citation = byLabel.get(segment.label);
+        return citation
+          ? (
+            <CitationChip
+              key={index}
+              citation={citation}
+              documentName={getDocumentName?.(citation.documentId)}
+              onClick={onCitationClick}
+            />
+          )
+          : <React.Fragment key={index}>[{segment.label}]</React.Fragment>;
+      })}
+    </>
+  );
+};
+
+interface QuoteBlockProps {
+  quote: ChatQuote;
+  documentName?: string;
+  onClick: (quote: ChatQuote) => void;
+}
+
+const QuoteBlock = ({ quote, documentName, onClick }: QuoteBlockProps) => (
+  <button
+    type="button"
+    onClick={() => onClick(quote)}
+    title={`Show page ${quote.pageNumber}`}
+    className="block w-full text-left text-xs leading-snug border-l-2 border-white/60 bg-white/10 rounded-r-md px-2 py-1.5 hover:bg-white/20 transition-colors"
+  >
+    <span className="line-clamp-3 italic">{quote.text}</span>
+    <span className="block mt-1 opacity-80 truncate">
+      {documentName ? `${documentName} · ` : ''}p. {quote.pageNumber}
+    </span>
+  </button>
+);
+
+interface ChatPanelProps {
+  // Fixes the chat to these documents instead of the sidebar's chat scope
+  documentIds?: string[];
+  // Replaces retrieval over the documents' text, e.g. with the passages of a diff
+  retrieveContext?: (query: string) => TextChunk[];
+  // Offered as one-click questions while the conversation is empty
+  suggestedPrompts?: string[];
+}
+
+const ChatPanel = ({ documentIds, retrieveContext, suggestedPrompts }: ChatPanelProps) => {
+  const {
+    documents,
+    currentDocument,
+    documentTexts,
+    chatScope: sidebarChatScope,
+    setChatScope,
+    createThread,
+    addMessage,
+    updateMessage,
+    appendMessageText,
+    isLoading,
+    setLoading,
+    navigateTo,
+    pendingPrompt,
+    setPendingPrompt,
+    chatSettings,
+    chatApiKey,
+  } = useStore();
   const [inputValue, setInputValue] = useState('');
+  const [draftQuote, setDraftQuote] = useState<ChatQuote | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const provider = useMemo(() => createChatProvider(getChatConfig(chatSettings, chatApiKey)), [chatSettings, chatApiKey]);
+  const isOnline = useOnlineStatus();
+  const [isEndpointUnreachable, setIsEndpointUnreachable] = useState(false);
+  // Reading and searching keep working offline; only a remote model is lost
+  const needsNetwork = provider.id !== 'mock';
+  const isOffline = needsNetwork && (!isOnline || isEndpointUnreachable);
+  const canSend = !(needsNetwork && !isOnline);
+  const documentText = currentDocument ? documentTexts[currentDocument.id] : undefined;
+
+  // With two or more documents in scope, chat runs across all of them in the
+  // library's own threads
+  const chatScope = documentIds ?? sidebarChatScope;
+  const isMultiDocument = chatScope.length > 1;
+  const scopeDocuments = useMemo(
+    () =>
+      chatScope
+        .map((id) => documents.find((document) => document.id === id))
+        .filter((document): document is PDFDocument => Boolean(document)),
+    [chatScope, documents]
+  );
+  const chatDocuments = isMultiDocument ? scopeDocuments : currentDocument ? [currentDocument] : [];
+  const conversationId = isMultiDocument ? LIBRARY_CONVERSATION_ID : currentDocument?.id;
+  const activeThread = useStore((state) => {
+    const thread = selectActiveThread(state, conversationId);
+    return !isMultiDocument || isSameScope(thread?.documentIds, chatScope) ? thread : null;
+  });
+  const messages = activeThread?.messages ?? [];
+  const scopeExtractingCount = scopeDocuments.filter((document) => documentTexts[document.id]?.status === 'extracting').length;
+  const scopeErrorCount = scopeDocuments.filter((document) => documentTexts[document.id]?.status === 'error').length;
+
+  const getDocumentName: DocumentNameLookup | undefined = isMultiDocument
+    ? (documentId) => documents.find((document) => document.id === documentId)?.name
+    : undefined;
+  const draftQuoteDocumentName = draftQuote ? getDocumentName?.(draftQuote.documentId) : undefined;
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -14,50 +164,149 @@ const ChatPanel = () => {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [activeThread?.messages]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!inputValue.trim() || !currentDocument) return;
+  // Quotes attached to an unsent question belong to the conversation they were
+  // made for; a multi-document chat accepts quotes from any document in it
+  useEffect(() => {
+    setDraftQuote(null);
+  }, [conversationId]);
 
-    const userMessage = inputValue.trim();
-    setInputValue('');
+  // Coming back online, or a different endpoint, is worth another try
+  useEffect(() => {
+    if (isOnline) setIsEndpointUnreachable(false);
+  }, [isOnline, provider]);
+
+  // Abort any in-flight reply when the panel unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const sendMessage = async (userMessage: string, quote?: ChatQuote) => {
+    if (!conversationId || chatDocuments.length === 0 || !canSend || useStore.getState().isLoading) return;
+
+    // The reply always lands in the thread it was asked in, even if the user
+    // switches documents or threads while it streams
+    const thread: ThreadRef = {
+      documentId: conversationId,
+      threadId: activeThread?.id ?? createThread(conversationId, undefined, isMultiDocument ? chatScope : undefined),
+    };
+    const getThreadMessages = () =>
+      useStore.getState().conversations[thread.documentId]?.threads.find((t) => t.id === thread.threadId)?.messages ?? [];
 
     // Add user message
-    addMessage({ role: 'user', text: userMessage });
+    addMessage(thread, { role: 'user', text: userMessage, quote });
+
+    const history = getThreadMessages();
+    const replyId = addMessage(thread, { role: 'ai', text: '', status: 'streaming' });
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const getReplyText = () => getThreadMessages().find((message) => message.id === replyId)?.text ?? '';
+    let sources: Citation[] = [];
 
     try {
       setLoading(true);
-      
-      // Simulate API call with mock response
-      setTimeout(() => {
-        const responses = [
-          "Based on the document, I can help you understand that concept better. The content suggests...",
-          "That's an excellent question about the document. From what I can analyze...",
-          "Looking at the specific section you're asking about, it appears that...",
-          "The document provides detailed information on this topic. Let me explain...",
-          "This is a key point in the document. The main ideas include..."
-        ];
-        
-        const randomResponse = responses[Math.floor(Math.random() * responses.length)];
-        addMessage({ 
-          role: 'ai', 
-          text: randomResponse + " " + userMessage.toLowerCase().includes('explain') 
-            ? "The explanation involves several key components that work together to form the complete picture."
-            : "Would you like me to elaborate on any specific aspect of this topic?"
+
+      // Only the passages most relevant to the question are sent to the model
+      let context: TextChunk[] = [];
+      const query = quote ? `${quote.text}\n${userMessage}` : userMessage;
+      if (retrieveContext) {
+        context = retrieveContext(query);
+      } else {
+        const { documentTexts: texts } = useStore.getState();
+        const retrievalSources: RetrievalSource[] = chatDocuments.flatMap((document) => {
+          const text = texts[document.id];
+          return text?.status === 'ready' ? [{ documentId: document.id, pages: text.pages }] : [];
         });
-        setLoading(false);
-      }, 1500);
-      
+        if (retrievalSources.length > 0) {
+          context = toContextPassages(
+            await searchDocuments(retrievalSources, query, getRetrievalConfig(useStore.getState().chatSettings).topK),
+            chatDocuments.map((document) => document.id)
+          );
+        }
+      }
+
+      sources = context.map(toCitation);
+
+      for await (const token of provider.stream({
+        documents: chatDocuments,
+        messages: history,
+        context,
+        // The page being read only says something about a single document
+        currentPage: isMultiDocument ? undefined : useStore.getState().currentPage,
+        signal: controller.signal,
+      })) {
+        appendMessageText(thread, replyId, token);
+      }
+      updateMessage(thread, replyId, { status: 'complete', citations: extractCitations(getReplyText(), sources) });
+      setIsEndpointUnreachable(false);
     } catch (error) {
-      addMessage({ 
-        role: 'ai', 
-        text: 'Sorry, I encountered an error. Please try again.' 
-      });
+      if (controller.signal.aborted) {
+        updateMessage(thread, replyId, { status: 'stopped', citations: extractCitations(getReplyText(), sources) });
+      } else {
+        console.error('Chat provider error:', error);
+        const isUnreachable = isUnreachableError(error);
+        if (isUnreachable) setIsEndpointUnreachable(true);
+        const partial = getReplyText();
+        updateMessage(thread, replyId, {
+          status: 'error',
+          text:
+            partial ||
+            (isUnreachable
+              ? 'Chat is offline: the model endpoint could not be reached. Your documents can still be read and searched.'
+              : 'Sorry, I encountered an error. Please try again.'),
+          citations: extractCitations(partial, sources),
+        });
+      }
+    } finally {
+      abortControllerRef.current = null;
       setLoading(false);
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inputValue.trim() || isLoading || !canSend) return;
+
+    const userMessage = inputValue.trim();
+    setInputValue('');
+    setDraftQuote(null);
+    sendMessage(userMessage, draftQuote ?? undefined);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Prompts handed over from the viewer's selection menu
+  useEffect(() => {
+    if (!pendingPrompt) return;
+    setPendingPrompt(null);
+
+    if (pendingPrompt.text && canSend && !useStore.getState().isLoading) {
+      sendMessage(pendingPrompt.text, pendingPrompt.quote);
+    } else {
+      // Leave it in the input if a reply is still streaming or chat is offline
+      setDraftQuote(pendingPrompt.quote);
+      if (pendingPrompt.text) setInputValue(pendingPrompt.text);
+      inputRef.current?.focus();
+    }
+    // sendMessage reads everything it needs from the store at call time
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pendingPrompt]);
+
+  const handleQuoteClick = (quote: ChatQuote) => {
+    const documentId = quote.documentId ?? currentDocument?.id;
+    if (!documentId) return;
+    navigateTo({ documentId, pageNumber: quote.pageNumber });
+  };
+
+  const handleCitationClick = (citation: Citation) => {
+    navigateTo({
+      documentId: citation.documentId,
+      pageNumber: citation.pageNumber,
+      highlight: { start: citation.start, end: citation.end },
+    });
+  };
+
   return (
     <div className="h-full flex flex-col">
       {/* Chat Header */}
@@ -66,15 +315,66 @@ const ChatPanel = () => {
           <div className="h-8 w-8 bg-gradient-to-br from-purple-500 to-pink-600 rounded-lg flex items-center justify-center">
             <Sparkles className="h-4 w-4 text-white" />
           </div>
-          <div>
-            <h3 className="text-lg font-semibold text-gray-900">AI Assistant</h3>
-            {currentDocument && (
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-2">
+              <h3 className="text-lg font-semibold text-gray-900">AI Assistant</h3>
+              {isOffline && (
+                <span
+                  title={isOnline ? 'The model endpoint could not be reached' : 'No network connection'}
+                  className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600"
+                >
+                  <WifiOff className="h-3 w-3" />
+                  Offline
+                </span>
+              )}
+            </div>
+            {isMultiDocument ? (
+              <>
+                <p className="text-sm text-gray-600 truncate" title={scopeDocuments.map((document) => document.name).join('\n')}>
+                  Discussing {scopeDocuments.length} documents: {scopeDocuments.map((document) => document.name).join(', ')}
+                </p>
+                {scopeExtractingCount > 0 && (
+                  <p className="text-xs text-blue-600">
+                    Reading {scopeExtractingCount} {scopeExtractingCount === 1 ? 'document' : 'documents'}...
+                  </p>
+                )}
+                {scopeErrorCount > 0 && (
+                  <p className="text-xs text-red-500">
+                    Could not read the text of {scopeErrorCount} {scopeErrorCount === 1 ? 'document' : 'documents'}
+                  </p>
+                )}
+              </>
+            ) : currentDocument && (
               <p className="text-sm text-gray-600">Discussing: {currentDocument.name}</p>
             )}
+            {!isMultiDocument && documentText?.status === 'extracting' && (
+              <p className="text-xs text-blue-600">
+                Reading document
+                {documentText.totalPages ? ` (${documentText.extractedPages ?? 0}/${documentText.totalPages} pages)` : ''}...
+              </p>
+            )}
+            {!isMultiDocument && documentText?.status === 'error' && (
+              <p className="text-xs text-red-500">Could not read the document text</p>
+            )}
           </div>
+          {isMultiDocument && !documentIds && (
+            <button
+              type="button"
+              onClick={() => setChatScope([])}
+              disabled={isLoading}
+              title="Back to chatting about the open document"
+              className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-700 transition-colors disabled:opacity-50"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
         </div>
       </div>
 
+      {conversationId && (
+        <ChatThreadBar documentId={conversationId} documentIds={isMultiDocument ? chatScope : undefined} />
+      )}
+
       {/* Chat Messages - Fixed height with internal scroll */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 min-h-0">
         {messages.length === 0 ? (
@@ -83,8 +383,25 @@ const ChatPanel = () => {
               <Bot className="mx-auto h-12 w-12 text-blue-500 mb-3" />
               <h4 className="font-medium text-gray-900 mb-2">Ready to help!</h4>
               <p className="text-sm text-gray-600">
-                Upload a PDF and start asking questions. You can also select text in the document for quick explanations.
+                {isMultiDocument
+                  ? `Ask a question and the answer will draw on all ${scopeDocuments.length} documents, citing each source.`
+                  : 'Upload a PDF and start asking questions. You can also select text in the document for quick explanations.'}
               </p>
+              {suggestedPrompts && chatDocuments.length > 0 && (
+                <div className="mt-4 flex flex-col gap-2">
+                  {suggestedPrompts.map((prompt) => (
+                    <button
+                      key={prompt}
+                      type="button"
+                      onClick={() => sendMessage(prompt)}
+                      disabled={isLoading || !canSend}
+                      className="px-3 py-2 rounded-lg bg-white border border-blue-200 text-sm text-blue-700 hover:bg-blue-50 transition-colors disabled:opacity-50"
+                    >
+                      {prompt}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         ) : (
@@ -112,33 +429,54 @@ const ChatPanel = () => {
                         <User className="h-3 w-3 text-white" />
                       </div>
                     )}
-                    <div className="text-sm leading-relaxed">{message.text}</div>
+                    <div className="min-w-0 space-y-2">
+                      {message.quote && (
+                        <QuoteBlock
+                          quote={message.quote}
+                          documentName={getDocumentName?.(message.quote.documentId)}
+                          onClick={handleQuoteClick}
+                        />
+                      )}
+                      {message.status === 'streaming' && !message.text ? (
+                        <TypingIndicator />
+                      ) : (
+                        <div className="text-sm leading-relaxed whitespace-pre-wrap">
+                          <MessageText
+                            message={message}
+                            getDocumentName={getDocumentName}
+                            onCitationClick={handleCitationClick}
+                          />
+                          {message.status === 'streaming' && (
+                            <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+                          )}
+                        </div>
+                      )}
+                    </div>
                   </div>
+                  {message.role === 'ai' && message.citations && message.citations.length > 0 && (
+                    <div className="mt-2 pt-2 border-t border-gray-100 flex flex-wrap items-center gap-1">
+                      <span className="text-xs text-gray-500 mr-1">Sources</span>
+                      {message.citations.map((citation) => (
+                        <CitationChip
+                          key={citation.chunkId}
+                          citation={citation}
+                          documentName={getDocumentName?.(citation.documentId)}
+                          onClick={handleCitationClick}
+                        />
+                      ))}
+                    </div>
+                  )}
                   <div className={`text-xs mt-2 ${
                     message.role === 'user' ? 'text-blue-100' : 'text-gray-500'
                   }`}>
                     {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    {message.status === 'stopped' && ' · Stopped'}
+                    {message.status === 'error' && ' · Failed'}
                   </div>
                 </div>
               </div>
             ))}
             
-            {isLoading && (
-              <div className="flex justify-start">
-                <div className="bg-white rounded-2xl px-4 py-3 max-w-[85%] border border-gray-200 shadow-sm">
-                  <div className="flex items-center space-x-3">
-                    <div className="h-6 w-6 bg-gradient-to-br from-purple-500 to-pink-600 rounded-full flex items-center justify-center">
-                      <Bot className="h-3 w-3 text-white" />
-                    </div>
-                    <div className="flex space-x-1">
-                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
-                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{animationDelay: '0.1s'}}></div>
-                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></div>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            )}
             <div ref={messagesEndRef} />
           </>
         )}
@@ -146,27 +484,64 @@ const ChatPanel = () => {
 
       {/* Chat Input - Fixed at bottom */}
       <div className="p-4 border-t border-gray-200 bg-white flex-shrink-0">
+        {draftQuote && (
+          <div className="mb-2 flex items-start gap-2 rounded-lg border border-blue-100 bg-blue-50 px-3 py-2 text-xs text-gray-700">
+            <Quote className="h-3.5 w-3.5 mt-0.5 text-blue-500 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="line-clamp-2 italic">{draftQuote.text}</p>
+              <p className="mt-0.5 text-gray-500 truncate">
+                {draftQuoteDocumentName ? `${draftQuoteDocumentName} · ` : ''}Page {draftQuote.pageNumber}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setDraftQuote(null)}
+              className="p-0.5 rounded text-gray-400 hover:text-gray-600"
+              title="Remove quote"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        )}
         <form onSubmit={handleSubmit}>
           <div className="flex space-x-2">
             <input
+              ref={inputRef}
               type="text"
               value={inputValue}
               onChange={(e) => setInputValue(e.target.value)}
               placeholder={
-                currentDocument 
-                  ? "Ask a question about the PDF..." 
-                  : "Select a PDF to start chatting"
+                chatDocuments.length === 0
+                  ? "Select a PDF to start chatting"
+                  : !canSend
+                    ? "Chat is offline. Reading and search still work."
+                    : draftQuote
+                      ? "Ask about the selected text..."
+                      : isMultiDocument
+                        ? `Ask a question across ${chatDocuments.length} documents...`
+                        : "Ask a question about the PDF..."
               }
-              disabled={!currentDocument || isLoading}
+              disabled={chatDocuments.length === 0 || isLoading}
               className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100 disabled:cursor-not-allowed transition-all"
             />
-            <button
-              type="submit"
-              disabled={!inputValue.trim() || !currentDocument || isLoading}
-              className="px-6 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl hover:from-blue-700 hover:to-blue-800 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm hover:shadow-md"
-            >
-              <Send className="h-4 w-4" />
-            </button>
+            {isLoading ? (
+              <button
+                type="button"
+                onClick={handleStop}
+                title="Stop generating"
+                className="px-6 py-3 bg-gray-800 text-white rounded-xl hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-all shadow-sm hover:shadow-md"
+              >
+                <Square className="h-4 w-4 fill-current" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!inputValue.trim() || chatDocuments.length === 0 || !canSend}
+                className="px-6 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl hover:from-blue-700 hover:to-blue-800 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm hover:shadow-md"
+              >
+                <Send className="h-4 w-4" />
+              </button>
+            )}
           </div>
         </form>
       </div>
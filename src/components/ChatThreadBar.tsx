@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+import { useStore, selectConversation, isSameScope } from '../store/useStore';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface ChatThreadBarProps {
+  documentId: string;
+  // For library threads: only threads across exactly these documents are listed
+  documentIds?: string[];
+}
+
+const ChatThreadBar = ({ documentId, documentIds }: ChatThreadBarProps) => {
+  const conversation = useStore((state) => selectConversation(state, documentId));
+  const { createThread, renameThread, deleteThread, setActiveThread, isLoading } = useStore();
+  const [editingTitle, setEditingTitle] = useState<string | null>(null);
+
+  const threads = documentIds
+    ? conversation.threads.filter((thread) => isSameScope(thread.documentIds, documentIds))
+    : conversation.threads;
+  const activeThread = threads.find((thread) => thread.id === conversation.activeThreadId);
+  const activeThreadId = activeThread?.id ?? null;
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (activeThreadId && editingTitle?.trim()) {
+      renameThread({ documentId, threadId: activeThreadId }, editingTitle.trim());
+    }
+    setEditingTitle(null);
+  };
+
+  const handleDelete = () => {
+    if (!activeThread) return;
+    if (activeThread.messages.length > 0 && !window.confirm(`Delete "${activeThread.title}"?`)) return;
+    deleteThread({ documentId, threadId: activeThread.id });
+  };
+
+  const iconButton = 'p-1.5 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-700 transition-colors disabled:opacity-50';
+
+  return (
+    <div className="px-4 py-2 border-b border-gray-200 bg-white flex items-center gap-1 flex-shrink-0">
+      {editingTitle !== null ? (
+        <form onSubmit={handleRename} className="flex flex-1 items-center gap-1 min-w-0">
+          <input
+            autoFocus
+            value={editingTitle}
+            onChange={(e) => setEditingTitle(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && setEditingTitle(null)}
+            className="flex-1 min-w-0 h-8 px-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button type="submit" className={iconButton} title="Save">
+            <Check className="h-4 w-4" />
+          </button>
+          <button type="button" onClick={() => setEditingTitle(null)} className={iconButton} title="Cancel">
+            <X className="h-4 w-4" />
+          </button>
+        </form>
+      ) : (
+        <>
+          <Select
+            value={activeThreadId ?? ''}
+            onValueChange={(threadId) => setActiveThread({ documentId, threadId })}
+            disabled={threads.length === 0}
+          >
+            <SelectTrigger className="h-8 flex-1 min-w-0 text-sm">
+              <SelectValue placeholder="No conversations yet" />
+            </SelectTrigger>
+            <SelectContent>
+              {threads.map((thread) => (
+                <SelectItem key={thread.id} value={thread.id}>
+                  {thread.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <button
+            onClick={() => setEditingTitle(activeThread?.title ?? '')}
+            disabled={!activeThread}
+            className={iconButton}
+            title="Rename conversation"
+          >
+            <Pencil className="h-4 w-4" />
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={!activeThread || isLoading}
+            className={iconButton}
+            title="Delete conversation"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => createThread(documentId, undefined, documentIds)}
+            disabled={isLoading}
+            className={iconButton}
+            title="New conversation"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ChatThreadBar;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { ParagraphChange, ParagraphChangeKind } from '../lib/compare';
+
+interface CompareChangeListProps {
+  changes: ParagraphChange[];
+  activeId: string | null;
+  onSelect: (change: ParagraphChange) => void;
+}
+
+const KIND_LABELS: Record<ParagraphChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+};
+
+const KIND_CLASSES: Record<ParagraphChangeKind, string> = {
+  added: 'border-green-500',
+  removed: 'border-red-500',
+  changed: 'border-amber-500',
+};
+
+const describePages = ({ before, after }: ParagraphChange) =>
+  [before && `p. ${before.pageNumber}`, after && `p. ${after.pageNumber}`].filter(Boolean).join(' → ');
+
+// Differences between the two documents in reading order, with changed
+// paragraphs shown word by word.
+const CompareChangeList = ({ changes, activeId, onSelect }: CompareChangeListProps) => {
+  if (changes.length === 0) {
+    return <p className="p-2 text-xs text-gray-500">No differences in the text of the two documents.</p>;
+  }
+
+  return (
+    <ul className="space-y-1.5">
+      {changes.map((change) => (
+        <li key={change.id}>
+          <div
+            role="button"
+            tabIndex={0}
+            onClick={() => onSelect(change)}
+            onKeyDown={(e) => e.key === 'Enter' && onSelect(change)}
+            className={`rounded-md border-l-4 bg-white p-2 text-xs shadow-sm cursor-pointer ${KIND_CLASSES[change.kind]} ${
+              change.id === activeId ? 'ring-2 ring-blue-400' : 'ring-1 ring-gray-200 hover:ring-gray-300'
+            }`}
+          >
+            <div className="flex items-center gap-1 text-gray-500">
+              <span className="font-medium text-gray-700">{KIND_LABELS[change.kind]}</span>
+              <span className="ml-auto">{describePages(change)}</span>
+            </div>
+            <p className="mt-1 text-gray-700 line-clamp-4">
+              {change.words
+                ? change.words.map((segment, index) => (
+                    <React.Fragment key={index}>
+                      {index > 0 && ' '}
+                      {segment.op === 'equal' ? (
+                        segment.text
+                      ) : segment.op === 'added' ? (
+                        <ins className="bg-green-100 text-green-800 no-underline">{segment.text}</ins>
+                      ) : (
+                        <del className="bg-red-100 text-red-700">{segment.text}</del>
+                      )}
+                    </React.Fragment>
+                  ))
+                : change.kind === 'removed'
+                  ? <del className="text-red-700">{change.before?.text}</del>
+                  : <ins className="text-green-800 no-underline">{change.after?.text}</ins>}
+            </p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default CompareChangeList;
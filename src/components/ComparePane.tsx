@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Document, Page } from 'react-pdf';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { PDF_DOCUMENT_OPTIONS } from '../lib/pdf/pdfjs';
+import { getTextRangeRects } from '../lib/pdf/highlight';
+import { DEFAULT_PAGE_SIZE, findVisiblePages, PAGE_GAP, PageSlot } from '../lib/pdf/pageLayout';
+import { Paragraph, ParagraphChange, ParagraphChangeKind } from '../lib/compare';
+import { useFlashHighlight, usePageSizes, useVirtualPages } from '../hooks/use-virtual-pages';
+import { PageRect, PageText, PDFDocument } from '../types';
+import PDFFlashHighlight from './PDFFlashHighlight';
+
+// Scroll position as a page and how far down it the top of the viewport is
+export interface PanePosition {
+  pageNumber: number;
+  // 0 at the top of the page, 1 at its bottom
+  fraction: number;
+}
+
+// Where a pane should scroll to. With `highlight` the text range is centred
+// and flashed instead; `silent` requests do not echo a position back.
+export interface PaneTarget extends PanePosition {
+  highlight?: { start: number; end: number };
+  silent?: boolean;
+  // Bumped on every request so the same target can be requested twice
+  requestId: number;
+}
+
+export type CompareSide = 'before' | 'after';
+
+interface ComparePaneProps {
+  document: PDFDocument;
+  side: CompareSide;
+  pages: PageText[];
+  changes: ParagraphChange[];
+  activeChangeId: string | null;
+  target: PaneTarget | null;
+  onChangeClick: (changeId: string) => void;
+  onScrollPositionChange: (position: PanePosition) => void;
+}
+
+interface ChangeBox {
+  changeId: string;
+  kind: ParagraphChangeKind;
+  rect: PageRect;
+}
+
+const CHANGE_BOX_CLASSES: Record<ParagraphChangeKind, string> = {
+  added: 'bg-green-300/25 border-l-4 border-green-500',
+  removed: 'bg-red-300/25 border-l-4 border-red-500',
+  changed: 'bg-amber-300/25 border-l-4 border-amber-500',
+};
+
+// Padding around the pages inside the scroll container
+const PADDING_PX = 16;
+
+const slotPageHeight = (slot: PageSlot) => slot.height - PAGE_GAP;
+
+const boundingRect = (rects: PageRect[]): PageRect | null => {
+  if (rects.length === 0) return null;
+  const left = Math.min(...rects.map((rect) => rect.left));
+  const top = Math.min(...rects.map((rect) => rect.top));
+  const right = Math.max(...rects.map((rect) => rect.left + rect.width));
+  const bottom = Math.max(...rects.map((rect) => rect.top + rect.height));
+  return { left, top, width: right - left, height: bottom - top };
+};
+
+// One side of the comparison view: the document at fit-width with its
+// changed paragraphs marked. Only pages near the viewport are mounted.
+const ComparePane = ({
+  document,
+  side,
+  pages,
+  changes,
+  activeChangeId,
+  target,
+  onChangeClick,
+  onScrollPositionChange,
+}: ComparePaneProps) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [containerWidth, setContainerWidth] = useState(600);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pagesRef = useRef<HTMLDivElement>(null);
+  // scrollTop set by the last programmatic scroll, whose event should not be echoed
+  const ignoredScrollTopRef = useRef<number | null>(null);
+
+  const pageWidth = Math.max(200, containerWidth - PADDING_PX * 2);
+  const pageSizes = usePageSizes(pdf);
+  const { pageSlots, visibleRange, getPagesTop, scheduleScrollUpdate } = useVirtualPages({
+    pageSizes,
+    numPages: pdf?.numPages ?? 0,
+    pageWidth,
+    containerRef,
+    pagesRef,
+  });
+  const { flash, showFlash } = useFlashHighlight();
+
+  const boxesByPage = useMemo(() => {
+    const boxes = new Map<number, ChangeBox[]>();
+    for (const change of changes) {
+      const paragraph: Paragraph | undefined = side === 'before' ? change.before : change.after;
+      const page = paragraph && pages[paragraph.pageNumber - 1];
+      const rect = page && boundingRect(getTextRangeRects(page, paragraph.start, paragraph.end));
+      if (!paragraph || !rect) continue;
+
+      const pageBoxes = boxes.get(paragraph.pageNumber) ?? [];
+      pageBoxes.push({ changeId: change.id, kind: change.kind, rect });
+      boxes.set(paragraph.pageNumber, pageBoxes);
+    }
+    return boxes;
+  }, [changes, pages, side]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const updateWidth = () => setContainerWidth(container.clientWidth);
+    updateWidth();
+    const observer = new ResizeObserver(updateWidth);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setPdf(null);
+    setError(null);
+  }, [document.id]);
+
+  const readPosition = useCallback((): PanePosition | null => {
+    const container = containerRef.current;
+    const pagesTop = getPagesTop();
+    if (!container || pagesTop === null || pageSlots.length === 0) return null;
+
+    const scrollTop = container.scrollTop - pagesTop;
+    const { first } = findVisiblePages(pageSlots, scrollTop, 0, 0);
+    const index = Math.max(0, first - 1);
+    return { pageNumber: index + 1, fraction: (scrollTop - pageSlots[index].top) / slotPageHeight(pageSlots[index]) };
+  }, [getPagesTop, pageSlots]);
+
+  const handleScroll = () => {
+    scheduleScrollUpdate(() => {
+      const container = containerRef.current;
+      if (container && ignoredScrollTopRef.current !== null && Math.abs(container.scrollTop - ignoredScrollTopRef.current) < 2) {
+        return;
+      }
+      ignoredScrollTopRef.current = null;
+      const position = readPosition();
+      if (position) onScrollPositionChange(position);
+    });
+  };
+
+  const hasPages = pageSlots.length > 0;
+  useEffect(() => {
+    const container = containerRef.current;
+    const pagesTop = getPagesTop();
+    if (!target || !container || pagesTop === null || !hasPages) return;
+
+    const index = Math.min(Math.max(1, target.pageNumber), pageSlots.length) - 1;
+    const page = pages[index];
+    const rect = target.highlight && page
+      ? boundingRect(getTextRangeRects(page, target.highlight.start, target.highlight.end))
+      : null;
+    const factor = page ? pageWidth / page.width : 0;
+    const offset = rect ? rect.top * factor - container.clientHeight / 3 : target.fraction * slotPageHeight(pageSlots[index]);
+    const top = Math.max(0, pagesTop + pageSlots[index].top + offset);
+
+    if (target.silent) ignoredScrollTopRef.current = Math.min(top, container.scrollHeight - container.clientHeight);
+    container.scrollTo({ top });
+    if (rect) showFlash({ requestId: target.requestId, pageNumber: index + 1, pageWidth: page.width, rects: [rect] });
+    // Resizing should not replay the request
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [target, hasPages]);
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={handleScroll}
+      className="h-full overflow-y-auto overflow-x-hidden bg-gradient-to-br from-gray-50 to-blue-50"
+      style={{ padding: PADDING_PX }}
+    >
+      {error ? (
+        <div className="p-8 text-center text-sm text-red-500">{error}</div>
+      ) : (
+        <Document
+          file={document.url}
+          onLoadSuccess={setPdf}
+          onLoadError={(loadError) => {
+            console.error('PDF load error:', loadError);
+            setError('Failed to load PDF.');
+          }}
+          loading={<div className="p-8 text-center text-sm text-gray-500">Loading PDF...</div>}
+          options={PDF_DOCUMENT_OPTIONS}
+        >
+          <div ref={pagesRef}>
+            {pageSlots.map((slot, index) => {
+              const pageNumber = index + 1;
+              const isMounted = pageNumber >= visibleRange.first && pageNumber <= visibleRange.last;
+              const factor = pageWidth / (pageSizes[index] ?? DEFAULT_PAGE_SIZE).width;
+
+              return (
+                <div key={pageNumber} style={{ height: slot.height }}>
+                  {isMounted ? (
+                    <Page
+                      pageNumber={pageNumber}
+                      width={pageWidth}
+                      renderTextLayer={false}
+                      renderAnnotationLayer={false}
+                      loading={<div className="bg-white animate-pulse rounded-lg" style={{ width: pageWidth, height: slotPageHeight(slot) }} />}
+                      className="mx-auto rounded-lg shadow-md overflow-hidden"
+                    >
+                      {(boxesByPage.get(pageNumber) ?? []).map((box) => (
+                        <button
+                          key={box.changeId}
+                          type="button"
+                          onClick={() => onChangeClick(box.changeId)}
+                          title={`${box.kind[0].toUpperCase()}${box.kind.slice(1)} paragraph`}
+                          className={`absolute rounded-sm ${CHANGE_BOX_CLASSES[box.kind]} ${
+                            box.changeId === activeChangeId ? 'ring-2 ring-blue-500' : ''
+                          }`}
+                          style={{
+                            left: box.rect.left * factor - 4,
+                            top: box.rect.top * factor - 2,
+                            width: box.rect.width * factor + 8,
+                            height: box.rect.height * factor + 4,
+                          }}
+                        />
+                      ))}
+                      <PDFFlashHighlight flash={flash} pageNumber={pageNumber} renderedWidth={pageWidth} />
+                    </Page>
+                  ) : (
+                    <div className="bg-white/70 mx-auto rounded-lg border border-gray-200" style={{ width: pageWidth, height: slotPageHeight(slot) }} />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </Document>
+      )}
+    </div>
+  );
+};
+
+export default ComparePane;
@@ -0,0 +1,614 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  FileText,
+  Pin,
+  PinOff,
+  Pencil,
+  Copy,
+  Trash2,
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  Check,
+  ChevronRight,
+  Folder,
+  FolderInput,
+  FolderPlus,
+  GitCompare,
+  MessagesSquare,
+  Tag,
+  X,
+} from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useStore } from '../store/useStore';
+import { LibrarySort, PDFDocument } from '../types';
+import {
+  buildFolderTree,
+  collectTags,
+  FolderNode,
+  isInFolder,
+  LIBRARY_SORT_LABELS,
+  normalizeFolderPath,
+} from '../lib/library';
+import { comparePath } from '../lib/routes';
+import { SidebarGroupLabel, SidebarMenu, SidebarMenuButton, SidebarMenuItem } from '@/components/ui/sidebar';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+// Drag payload: JSON array of PDFDocument ids
+const DRAG_TYPE = 'application/x-chat-pdf-documents';
+
+const INDENT_PX = 12;
+
+const inputClass =
+  'w-full h-8 px-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const isDocumentDrag = (e: React.DragEvent) => e.dataTransfer.types.includes(DRAG_TYPE);
+
+interface InlineInputProps {
+  initialValue: string;
+  label: string;
+  placeholder?: string;
+  onSubmit: (value: string) => void;
+  onCancel: () => void;
+}
+
+// Text field that commits on Enter or blur and cancels on Escape
+const InlineInput = ({ initialValue, label, placeholder, onSubmit, onCancel }: InlineInputProps) => {
+  const [value, setValue] = useState(initialValue);
+  // Set once the edit is committed or cancelled; the blur that follows (or the
+  // one some browsers fire when the input is removed) must not commit again
+  const settledRef = useRef(false);
+
+  const commit = () => {
+    if (settledRef.current) return;
+    settledRef.current = true;
+    if (value.trim()) onSubmit(value.trim());
+    else onCancel();
+  };
+
+  const cancel = () => {
+    if (settledRef.current) return;
+    settledRef.current = true;
+    onCancel();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    commit();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-1">
+      <input
+        autoFocus
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => e.key === 'Escape' && cancel()}
+        onBlur={commit}
+        aria-label={label}
+        placeholder={placeholder}
+        className={inputClass}
+      />
+    </form>
+  );
+};
+
+// The sidebar's document library: a folder tree with tag filtering, pinning,
+// multi-select, drag-and-drop moves and per-item actions on right click.
+const DocumentList = () => {
+  const {
+    documents,
+    currentDocument,
+    librarySort,
+    folders,
+    setCurrentDocument,
+    removeDocument,
+    renameDocument,
+    setDocumentPinned,
+    duplicateDocument,
+    setLibrarySort,
+    reorderDocument,
+    createFolder,
+    deleteFolder,
+    moveDocuments,
+    addTag,
+    removeTag,
+    chatScope,
+    setChatScope,
+    isLoading,
+  } = useStore();
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  // Parent path of the folder being created, if any
+  const [newFolderParent, setNewFolderParent] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [lastClickedId, setLastClickedId] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [isTagging, setIsTagging] = useState(false);
+  const navigate = useNavigate();
+
+  const allTags = useMemo(() => collectTags(documents), [documents]);
+  const activeTagFilter = tagFilter.filter((tag) => allTags.includes(tag));
+
+  const tree = useMemo(() => {
+    if (activeTagFilter.length === 0) return buildFolderTree(folders, documents, librarySort);
+    // While filtering, only folders holding a match are shown
+    const matches = documents.filter((doc) => activeTagFilter.every((tag) => doc.tags.includes(tag)));
+    return buildFolderTree([], matches, librarySort);
+  }, [folders, documents, librarySort, activeTagFilter]);
+
+  const folderPaths = useMemo(() => {
+    const paths: string[] = [];
+    const visit = (node: FolderNode) => {
+      for (const child of node.folders) {
+        paths.push(child.path);
+        visit(child);
+      }
+    };
+    visit(buildFolderTree(folders, documents, librarySort));
+    return paths;
+  }, [folders, documents, librarySort]);
+
+  // Documents in on-screen order, for shift-click ranges
+  const visibleDocuments = useMemo(() => {
+    const ordered: PDFDocument[] = [];
+    const visit = (node: FolderNode) => {
+      if (node.path && collapsed.has(node.path)) return;
+      node.folders.forEach(visit);
+      ordered.push(...node.documents);
+    };
+    visit(tree);
+    return ordered;
+  }, [tree, collapsed]);
+
+  const selectedDocuments = documents.filter((doc) => selectedIds.has(doc.id));
+
+  const toggleTagFilter = (tag: string) =>
+    setTagFilter((current) => (current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag]));
+
+  const toggleFolder = (path: string) =>
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+
+  const handleDocumentClick = (e: React.MouseEvent, doc: PDFDocument) => {
+    if (e.metaKey || e.ctrlKey) {
+      setSelectedIds((current) => {
+        const next = new Set(current);
+        if (next.has(doc.id)) next.delete(doc.id);
+        else next.add(doc.id);
+        return next;
+      });
+      setLastClickedId(doc.id);
+      return;
+    }
+
+    if (e.shiftKey && lastClickedId) {
+      const from = visibleDocuments.findIndex((candidate) => candidate.id === lastClickedId);
+      const to = visibleDocuments.findIndex((candidate) => candidate.id === doc.id);
+      if (from !== -1 && to !== -1) {
+        const range = visibleDocuments.slice(Math.min(from, to), Math.max(from, to) + 1);
+        setSelectedIds(new Set(range.map((candidate) => candidate.id)));
+        return;
+      }
+    }
+
+    setSelectedIds(new Set());
+    setLastClickedId(doc.id);
+    setCurrentDocument(doc);
+  };
+
+  const handleDragStart = (e: React.DragEvent, doc: PDFDocument) => {
+    const ids = selectedIds.has(doc.id) ? [...selectedIds] : [doc.id];
+    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(ids));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const dropHandlers = (path: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!isDocumentDrag(e)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(path);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+        setDropTarget((current) => (current === path ? null : current));
+      }
+    },
+    onDrop: (e: React.DragEvent) => {
+      if (!isDocumentDrag(e)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+      moveDocuments(JSON.parse(e.dataTransfer.getData(DRAG_TYPE)) as string[], path);
+    },
+  });
+
+  const handleDelete = (doc: PDFDocument) => {
+    if (!window.confirm(`Delete "${doc.name}"? Its conversations, highlights and notes are deleted too.`)) return;
+    removeDocument(doc.id);
+  };
+
+  const handleDeleteFolder = (node: FolderNode) => {
+    const count = documents.filter((doc) => isInFolder(doc.folder, node.path)).length;
+    if (count > 0 && !window.confirm(`Delete folder "${node.name}"? Its ${count} document(s) move to the parent folder.`)) {
+      return;
+    }
+    deleteFolder(node.path);
+  };
+
+  const handleDuplicate = (doc: PDFDocument) => {
+    const id = duplicateDocument(doc.id);
+    const copy = useStore.getState().documents.find((document) => document.id === id);
+    if (copy) setCurrentDocument(copy);
+  };
+
+  const handleCreateFolder = (parent: string, name: string) => {
+    const path = normalizeFolderPath(parent ? `${parent}/${name}` : name);
+    createFolder(path);
+    setCollapsed((current) => {
+      const next = new Set(current);
+      next.delete(parent);
+      return next;
+    });
+    setNewFolderParent(null);
+  };
+
+  const moveMenuItems = (ids: string[], Item: typeof ContextMenuItem | typeof DropdownMenuItem) => (
+    <>
+      <Item onSelect={() => moveDocuments(ids, '')}>Top level</Item>
+      {folderPaths.map((path) => (
+        <Item key={path} onSelect={() => moveDocuments(ids, path)}>
+          {path}
+        </Item>
+      ))}
+    </>
+  );
+
+  // `siblings` are the documents listed alongside it, in display order
+  const renderDocument = (doc: PDFDocument, depth: number, siblings: PDFDocument[]) => {
+    if (renamingId === doc.id) {
+      return (
+        <SidebarMenuItem key={doc.id} style={{ paddingLeft: depth * INDENT_PX }}>
+          <InlineInput
+            initialValue={doc.name}
+            label="Document name"
+            onSubmit={(name) => {
+              renameDocument(doc.id, name);
+              setRenamingId(null);
+            }}
+            onCancel={() => setRenamingId(null)}
+          />
+        </SidebarMenuItem>
+      );
+    }
+
+    const isSelected = selectedIds.has(doc.id);
+    // Pinned documents only move among each other
+    const index = siblings.indexOf(doc);
+    const [previous, next] = [siblings[index - 1], siblings[index + 1]].map((sibling) =>
+      sibling && Boolean(sibling.pinned) === Boolean(doc.pinned) ? sibling : undefined
+    );
+    return (
+      <ContextMenu key={doc.id}>
+        <ContextMenuTrigger asChild>
+          <SidebarMenuItem style={{ paddingLeft: depth * INDENT_PX }}>
+            <SidebarMenuButton
+              draggable
+              onDragStart={(e) => handleDragStart(e, doc)}
+              onClick={(e) => handleDocumentClick(e, doc)}
+              aria-selected={isSelected}
+              className={`w-full h-auto justify-start gap-3 p-3 rounded-lg transition-all ${
+                currentDocument?.id === doc.id
+                  ? 'bg-blue-100 text-blue-700 border border-blue-200'
+                  : isSelected
+                    ? 'bg-blue-50 ring-1 ring-blue-300'
+                    : 'hover:bg-gray-50'
+              }`}
+            >
+              <FileText className="h-4 w-4 flex-shrink-0 self-start mt-0.5" />
+              <span className="min-w-0 flex-1">
+                <span className="block text-sm truncate">{doc.name}</span>
+                {doc.tags.length > 0 && (
+                  <span className="mt-1 flex flex-wrap gap-1">
+                    {doc.tags.map((tag) => (
+                      <span key={tag} className="rounded bg-gray-100 px-1.5 text-[10px] leading-4 text-gray-600">
+                        {tag}
+                      </span>
+                    ))}
+                  </span>
+                )}
+              </span>
+              {chatScope.includes(doc.id) && (
+                <MessagesSquare className="h-3 w-3 flex-shrink-0 self-start mt-1 text-purple-500" aria-label="In chat" />
+              )}
+              {doc.pinned && <Pin className="h-3 w-3 flex-shrink-0 self-start mt-1 text-gray-400" />}
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </ContextMenuTrigger>
+        {/* Keep focus in the rename field instead of returning it to the item */}
+        <ContextMenuContent className="w-48" onCloseAutoFocus={(e) => e.preventDefault()}>
+          <ContextMenuItem onSelect={() => setRenamingId(doc.id)} className="gap-2">
+            <Pencil className="h-3.5 w-3.5" />
+            Rename
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => setDocumentPinned(doc.id, !doc.pinned)} className="gap-2">
+            {doc.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+            {doc.pinned ? 'Unpin' : 'Pin to top'}
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => handleDuplicate(doc)} className="gap-2">
+            <Copy className="h-3.5 w-3.5" />
+            Duplicate
+          </ContextMenuItem>
+          <ContextMenuItem
+            disabled={!previous}
+            onSelect={() => previous && reorderDocument(doc.id, previous.id)}
+            className="gap-2"
+          >
+            <ArrowUp className="h-3.5 w-3.5" />
+            Move up
+          </ContextMenuItem>
+          <ContextMenuItem
+            disabled={!next}
+            onSelect={() => next && reorderDocument(doc.id, next.id)}
+            className="gap-2"
+          >
+            <ArrowDown className="h-3.5 w-3.5" />
+            Move down
+          </ContextMenuItem>
+          <ContextMenuSub>
+            <ContextMenuSubTrigger className="gap-2">
+              <FolderInput className="h-3.5 w-3.5" />
+              Move to
+            </ContextMenuSubTrigger>
+            <ContextMenuSubContent className="max-h-64 overflow-y-auto">
+              {moveMenuItems([doc.id], ContextMenuItem)}
+            </ContextMenuSubContent>
+          </ContextMenuSub>
+          {doc.tags.length > 0 && (
+            <ContextMenuSub>
+              <ContextMenuSubTrigger className="gap-2">
+                <Tag className="h-3.5 w-3.5" />
+                Remove tag
+              </ContextMenuSubTrigger>
+              <ContextMenuSubContent>
+                {doc.tags.map((tag) => (
+                  <ContextMenuItem key={tag} onSelect={() => removeTag([doc.id], tag)}>
+                    {tag}
+                  </ContextMenuItem>
+                ))}
+              </ContextMenuSubContent>
+            </ContextMenuSub>
+          )}
+          <ContextMenuSeparator />
+          <ContextMenuItem onSelect={() => handleDelete(doc)} className="gap-2 text-red-600 focus:text-red-700">
+            <Trash2 className="h-3.5 w-3.5" />
+            Delete
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+    );
+  };
+
+  const renderNewFolderInput = (parent: string, depth: number) =>
+    newFolderParent === parent && (
+      <SidebarMenuItem style={{ paddingLeft: depth * INDENT_PX }}>
+        <InlineInput
+          initialValue=""
+          label="Folder name"
+          placeholder="Folder name"
+          onSubmit={(name) => handleCreateFolder(parent, name)}
+          onCancel={() => setNewFolderParent(null)}
+        />
+      </SidebarMenuItem>
+    );
+
+  const renderFolder = (node: FolderNode, depth: number): React.ReactNode => {
+    const isCollapsed = collapsed.has(node.path);
+    return (
+      <React.Fragment key={node.path}>
+        <ContextMenu>
+          <ContextMenuTrigger asChild>
+            <SidebarMenuItem style={{ paddingLeft: depth * INDENT_PX }} {...dropHandlers(node.path)}>
+              <SidebarMenuButton
+                onClick={() => toggleFolder(node.path)}
+                aria-expanded={!isCollapsed}
+                className={`w-full justify-start gap-1.5 px-2 rounded-lg ${
+                  dropTarget === node.path ? 'bg-blue-50 ring-2 ring-blue-400' : 'hover:bg-gray-50'
+                }`}
+              >
+                <ChevronRight className={`h-3.5 w-3.5 flex-shrink-0 transition-transform ${isCollapsed ? '' : 'rotate-90'}`} />
+                <Folder className="h-4 w-4 flex-shrink-0 text-gray-500" />
+                <span className="text-sm truncate">{node.name}</span>
+                <span className="ml-auto text-xs text-gray-400">{node.documents.length || ''}</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          </ContextMenuTrigger>
+          <ContextMenuContent className="w-44" onCloseAutoFocus={(e) => e.preventDefault()}>
+            <ContextMenuItem onSelect={() => setNewFolderParent(node.path)} className="gap-2">
+              <FolderPlus className="h-3.5 w-3.5" />
+              New subfolder
+            </ContextMenuItem>
+            <ContextMenuSeparator />
+            <ContextMenuItem onSelect={() => handleDeleteFolder(node)} className="gap-2 text-red-600 focus:text-red-700">
+              <Trash2 className="h-3.5 w-3.5" />
+              Delete folder
+            </ContextMenuItem>
+          </ContextMenuContent>
+        </ContextMenu>
+        {!isCollapsed && (
+          <>
+            {renderNewFolderInput(node.path, depth + 1)}
+            {node.folders.map((child) => renderFolder(child, depth + 1))}
+            {node.documents.map((doc) => renderDocument(doc, depth + 1, node.documents))}
+          </>
+        )}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-2">
+        <SidebarGroupLabel className="text-xs font-medium text-gray-500 uppercase tracking-wider p-0 h-auto">
+          Recent Files
+        </SidebarGroupLabel>
+        <div className="flex items-center">
+          <button
+            onClick={() => setNewFolderParent('')}
+            title="New folder"
+            className="rounded-md p-1 text-gray-500 hover:bg-gray-100 hover:text-gray-700"
+          >
+            <FolderPlus className="h-3.5 w-3.5" />
+          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger
+              title={`Sorted by ${LIBRARY_SORT_LABELS[librarySort].toLowerCase()}`}
+              className="flex items-center gap-1 rounded-md px-1.5 py-1 text-xs text-gray-500 hover:bg-gray-100 hover:text-gray-700"
+            >
+              <ArrowUpDown className="h-3 w-3" />
+              {LIBRARY_SORT_LABELS[librarySort]}
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel className="text-xs">Sort by</DropdownMenuLabel>
+              {(Object.keys(LIBRARY_SORT_LABELS) as LibrarySort[]).map((sort) => (
+                <DropdownMenuItem key={sort} onSelect={() => setLibrarySort(sort)} className="gap-2">
+                  <Check className={`h-3.5 w-3.5 ${sort === librarySort ? '' : 'invisible'}`} />
+                  {LIBRARY_SORT_LABELS[sort]}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-1" role="group" aria-label="Filter by tag">
+          {allTags.map((tag) => {
+            const isActive = activeTagFilter.includes(tag);
+            return (
+              <button
+                key={tag}
+                onClick={() => toggleTagFilter(tag)}
+                aria-pressed={isActive}
+                className={`rounded-full px-2 py-0.5 text-xs transition-colors ${
+                  isActive ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {tag}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {selectedDocuments.length > 0 && (
+        <div className="mb-2 rounded-lg border border-blue-200 bg-blue-50 p-2 text-xs">
+          <div className="flex items-center gap-1">
+            <span className="mr-auto font-medium text-blue-800">{selectedDocuments.length} selected</span>
+            {selectedDocuments.length === 2 && (
+              <button
+                onClick={() => {
+                  // The older upload is treated as the original
+                  const [before, after] = [...selectedDocuments].sort((a, b) => a.addedAt.getTime() - b.addedAt.getTime());
+                  navigate(comparePath(before.id, after.id));
+                }}
+                title="Compare selected"
+                className="rounded-md p-1 text-blue-700 hover:bg-blue-100"
+              >
+                <GitCompare className="h-3.5 w-3.5" />
+              </button>
+            )}
+            {selectedDocuments.length > 1 && (
+              <button
+                onClick={() => {
+                  setChatScope(selectedDocuments.map((doc) => doc.id));
+                  setSelectedIds(new Set());
+                }}
+                disabled={isLoading}
+                title="Chat across selected"
+                className="rounded-md p-1 text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+              >
+                <MessagesSquare className="h-3.5 w-3.5" />
+              </button>
+            )}
+            <button
+              onClick={() => setIsTagging(true)}
+              title="Tag selected"
+              className="rounded-md p-1 text-blue-700 hover:bg-blue-100"
+            >
+              <Tag className="h-3.5 w-3.5" />
+            </button>
+            <DropdownMenu>
+              <DropdownMenuTrigger title="Move selected" className="rounded-md p-1 text-blue-700 hover:bg-blue-100">
+                <FolderInput className="h-3.5 w-3.5" />
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="max-h-64 overflow-y-auto">
+                <DropdownMenuLabel className="text-xs">Move to</DropdownMenuLabel>
+                {moveMenuItems([...selectedIds], DropdownMenuItem)}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <button
+              onClick={() => setSelectedIds(new Set())}
+              title="Clear selection"
+              className="rounded-md p-1 text-blue-700 hover:bg-blue-100"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+          {isTagging && (
+            <InlineInput
+              initialValue=""
+              label="Tag"
+              placeholder="Add a tag to selected"
+              onSubmit={(tag) => {
+                addTag([...selectedIds], tag);
+                setIsTagging(false);
+              }}
+              onCancel={() => setIsTagging(false)}
+            />
+          )}
+        </div>
+      )}
+
+      <SidebarMenu
+        {...dropHandlers('')}
+        className={`min-h-12 rounded-lg ${dropTarget === '' ? 'ring-2 ring-blue-400 ring-offset-2' : ''}`}
+      >
+        {renderNewFolderInput('', 0)}
+        {tree.folders.map((node) => renderFolder(node, 0))}
+        {tree.documents.map((doc) => renderDocument(doc, 0, tree.documents))}
+        {documents.length === 0 && (
+          <div className="text-center py-8">
+            <FileText className="h-8 w-8 text-gray-300 mx-auto mb-2" />
+            <p className="text-sm text-gray-500">No documents uploaded yet</p>
+          </div>
+        )}
+      </SidebarMenu>
+    </>
+  );
+};
+
+export default DocumentList;
@@ -0,0 +1,111 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { FileText, Info } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { searchLibrary, TextSnippet } from '../lib/library/search';
+import { METADATA_LABELS } from '../lib/pdf/textExtraction';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+
+interface LibrarySearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const Snippet = ({ snippet }: { snippet: TextSnippet }) => (
+  <span className="text-xs text-gray-600 line-clamp-2">
+    {snippet.before}
+    <mark className="rounded-sm bg-yellow-200 text-gray-900">{snippet.match}</mark>
+    {snippet.after}
+  </span>
+);
+
+// Cmd+K search over every document's name, metadata and extracted text.
+const LibrarySearchDialog = ({ open, onOpenChange }: LibrarySearchDialogProps) => {
+  const { documents, documentTexts, navigateTo } = useStore();
+  const [query, setQuery] = useState('');
+  // Keep typing responsive while large libraries are scanned
+  const deferredQuery = useDeferredValue(query);
+
+  const results = useMemo(
+    () => (open ? searchLibrary(deferredQuery, documents, documentTexts) : []),
+    [open, deferredQuery, documents, documentTexts]
+  );
+  const isIndexing = documents.some((document) => documentTexts[document.id]?.status === 'extracting');
+
+  const openAt = (documentId: string, pageNumber: number, highlight?: { start: number; end: number }) => {
+    navigateTo({ documentId, pageNumber, highlight });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setQuery('');
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="overflow-hidden p-0 shadow-lg max-w-2xl">
+        <DialogTitle className="sr-only">Search library</DialogTitle>
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2"
+        >
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search titles, authors, keywords and text in all documents..."
+          />
+          <CommandList className="max-h-[60vh]">
+            {deferredQuery.trim() && (
+              <CommandEmpty>
+                {isIndexing ? 'No matches yet. Some documents are still being indexed.' : 'No matches.'}
+              </CommandEmpty>
+            )}
+            {results.map(({ document, nameMatch, metadataHits, pageHits, pageHitCount }) => (
+              <CommandGroup
+                key={document.id}
+                heading={`${document.name}${pageHitCount > 0 ? ` · ${pageHitCount} match${pageHitCount === 1 ? '' : 'es'}` : ''}`}
+              >
+                {(nameMatch || metadataHits.length > 0) && (
+                  <CommandItem value={`${document.id}:document`} onSelect={() => openAt(document.id, 1)} className="items-start gap-2">
+                    {nameMatch ? <FileText className="mt-0.5 h-4 w-4 flex-shrink-0" /> : <Info className="mt-0.5 h-4 w-4 flex-shrink-0" />}
+                    <span className="flex min-w-0 flex-col gap-0.5">
+                      {nameMatch ? <Snippet snippet={nameMatch} /> : <span className="text-sm">Open document</span>}
+                      {metadataHits.map(({ field, snippet }) => (
+                        <span key={field} className="flex gap-1">
+                          <span className="text-xs font-medium text-gray-500">{METADATA_LABELS[field]}:</span>
+                          <Snippet snippet={snippet} />
+                        </span>
+                      ))}
+                    </span>
+                  </CommandItem>
+                )}
+                {pageHits.map((hit) => (
+                  <CommandItem
+                    key={hit.pageNumber}
+                    value={`${document.id}:${hit.pageNumber}`}
+                    onSelect={() => openAt(document.id, hit.pageNumber, { start: hit.start, end: hit.end })}
+                    className="items-start gap-2"
+                  >
+                    <span className="mt-0.5 w-10 flex-shrink-0 text-xs font-medium text-gray-500">p. {hit.pageNumber}</span>
+                    <Snippet snippet={hit.snippet} />
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LibrarySearchDialog;
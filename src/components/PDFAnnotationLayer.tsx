@@ -0,0 +1,148 @@
+import React from 'react';
+import { StickyNote, Trash2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Textarea } from '@/components/ui/textarea';
+import { ANNOTATION_COLORS, NOTE_ICON_SIZE, quadsBounds, quadToRect } from '../lib/pdf/annotations';
+import { useStore } from '../store/useStore';
+import { Annotation, AnnotationColor } from '../types';
+
+interface PDFAnnotationLayerProps {
+  annotations: Annotation[];
+  // Rendered page width divided by the page width at scale 1
+  scale: number;
+  activeId: string | null;
+  onActiveChange: (id: string | null) => void;
+}
+
+// The popover is portalled, but React still bubbles its events to the viewer's
+// selection and click handlers
+const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+interface AnnotationEditorProps {
+  annotation: Annotation;
+  onDone: () => void;
+}
+
+const AnnotationEditor = ({ annotation, onDone }: AnnotationEditorProps) => {
+  const { updateAnnotation, deleteAnnotation } = useStore();
+  const { documentId, id } = annotation;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1">
+          {(Object.keys(ANNOTATION_COLORS) as AnnotationColor[]).map((color) => (
+            <button
+              key={color}
+              onClick={() => updateAnnotation(documentId, id, { color })}
+              aria-label={`Colour ${color}`}
+              aria-pressed={annotation.color === color}
+              className={`h-5 w-5 rounded-full ring-offset-1 ${
+                annotation.color === color ? 'ring-2 ring-gray-500' : 'ring-1 ring-black/10'
+              }`}
+              style={{ backgroundColor: ANNOTATION_COLORS[color] }}
+            />
+          ))}
+        </div>
+        <button
+          onClick={() => {
+            deleteAnnotation(documentId, id);
+            onDone();
+          }}
+          title="Delete"
+          className="p-1.5 rounded-md text-gray-500 hover:bg-red-50 hover:text-red-600"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+      <Textarea
+        value={annotation.note}
+        onChange={(e) => updateAnnotation(documentId, id, { note: e.target.value })}
+        placeholder={annotation.kind === 'note' ? 'Write a note...' : 'Add a comment...'}
+        autoFocus={annotation.kind === 'note'}
+        rows={3}
+        className="text-sm resize-none"
+      />
+      <p className="text-xs text-gray-500 line-clamp-2">"{annotation.text}"</p>
+    </div>
+  );
+};
+
+// Draws a page's highlights and sticky notes over the rendered page. The
+// marks themselves ignore the pointer so the text underneath stays selectable;
+// the viewer hit-tests clicks and reports the clicked annotation as active.
+const PDFAnnotationLayer = ({ annotations, scale, activeId, onActiveChange }: PDFAnnotationLayerProps) => (
+  <>
+    {annotations.map((annotation) => {
+      const bounds = quadsBounds(annotation.quads);
+      if (!bounds) return null;
+
+      const color = ANNOTATION_COLORS[annotation.color];
+      const isActive = annotation.id === activeId;
+
+      return (
+        <React.Fragment key={annotation.id}>
+          {annotation.quads.map((quad, index) => {
+            const rect = quadToRect(quad);
+            return (
+              <div
+                key={index}
+                data-annotation-id={annotation.id}
+                className={`absolute pointer-events-none mix-blend-multiply ${isActive ? 'ring-2 ring-blue-400/70' : ''}`}
+                style={{
+                  left: rect.left * scale,
+                  top: rect.top * scale,
+                  width: rect.width * scale,
+                  height: rect.height * scale,
+                  ...(annotation.kind === 'note'
+                    ? { borderBottom: `2px solid ${color}` }
+                    : { backgroundColor: color, opacity: 0.6 }),
+                }}
+              />
+            );
+          })}
+
+          <Popover open={isActive} onOpenChange={(open) => onActiveChange(open ? annotation.id : null)}>
+            <PopoverTrigger asChild>
+              {annotation.kind === 'note' || annotation.note ? (
+                <button
+                  aria-label={annotation.note ? `Note: ${annotation.note}` : 'Note'}
+                  className="absolute flex items-center justify-center rounded-sm shadow-sm ring-1 ring-black/10"
+                  style={{
+                    left: (bounds.left + bounds.width) * scale + 2,
+                    top: bounds.top * scale - NOTE_ICON_SIZE / 2,
+                    width: NOTE_ICON_SIZE,
+                    height: NOTE_ICON_SIZE,
+                    backgroundColor: color,
+                  }}
+                >
+                  <StickyNote className="h-3 w-3 text-gray-700" />
+                </button>
+              ) : (
+                <div
+                  className="absolute pointer-events-none"
+                  style={{
+                    left: bounds.left * scale,
+                    top: bounds.top * scale,
+                    width: bounds.width * scale,
+                    height: bounds.height * scale,
+                  }}
+                />
+              )}
+            </PopoverTrigger>
+            <PopoverContent
+              className="w-64 p-3"
+              onClick={stopPropagation}
+              onMouseUp={stopPropagation}
+              onKeyUp={stopPropagation}
+            >
+              <AnnotationEditor annotation={annotation} onDone={() => onActiveChange(null)} />
+            </PopoverContent>
+          </Popover>
+        </React.Fragment>
+      );
+    })}
+  </>
+);
+
+export default PDFAnnotationLayer;
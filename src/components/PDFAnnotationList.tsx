@@ -0,0 +1,69 @@
+import React from 'react';
+import { Highlighter, StickyNote, Trash2 } from 'lucide-react';
+import { ANNOTATION_COLORS } from '../lib/pdf/annotations';
+import { useStore } from '../store/useStore';
+import { Annotation } from '../types';
+
+interface PDFAnnotationListProps {
+  annotations: Annotation[];
+  activeId: string | null;
+  onSelect: (annotation: Annotation) => void;
+}
+
+// Page order, then top to bottom on the page
+const byPosition = (a: Annotation, b: Annotation) =>
+  a.pageNumber - b.pageNumber || (a.quads[0]?.[1] ?? 0) - (b.quads[0]?.[1] ?? 0);
+
+// Highlights and notes of the current document, listed in reading order.
+const PDFAnnotationList = ({ annotations, activeId, onSelect }: PDFAnnotationListProps) => {
+  const { deleteAnnotation } = useStore();
+
+  if (annotations.length === 0) {
+    return (
+      <p className="p-2 text-xs text-gray-500">
+        Select text in the document to highlight it or add a note.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-1.5">
+      {[...annotations].sort(byPosition).map((annotation) => {
+        const Icon = annotation.kind === 'note' ? StickyNote : Highlighter;
+        return (
+          <li key={annotation.id}>
+            <div
+              role="button"
+              tabIndex={0}
+              onClick={() => onSelect(annotation)}
+              onKeyDown={(e) => e.key === 'Enter' && onSelect(annotation)}
+              className={`group rounded-md border-l-4 bg-white p-2 text-xs shadow-sm cursor-pointer ${
+                annotation.id === activeId ? 'ring-2 ring-blue-400' : 'ring-1 ring-gray-200 hover:ring-gray-300'
+              }`}
+              style={{ borderLeftColor: ANNOTATION_COLORS[annotation.color] }}
+            >
+              <div className="flex items-center gap-1 text-gray-500">
+                <Icon className="h-3 w-3" />
+                <span>Page {annotation.pageNumber}</span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    deleteAnnotation(annotation.documentId, annotation.id);
+                  }}
+                  title="Delete"
+                  className="ml-auto p-0.5 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-red-600"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+              <p className="mt-1 text-gray-700 line-clamp-3">{annotation.text}</p>
+              {annotation.note && <p className="mt-1 text-gray-900 font-medium line-clamp-3">{annotation.note}</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default PDFAnnotationList;
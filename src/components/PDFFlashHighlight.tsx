@@ -0,0 +1,35 @@
+import React from 'react';
+import { FlashHighlight } from '../hooks/use-virtual-pages';
+
+interface PDFFlashHighlightProps {
+  flash: FlashHighlight | null;
+  pageNumber: number;
+  // Rendered width of the page in CSS pixels
+  renderedWidth: number;
+}
+
+// Pulsing overlay over text navigated to on this page; render inside a <Page>.
+const PDFFlashHighlight = ({ flash, pageNumber, renderedWidth }: PDFFlashHighlightProps) => {
+  if (flash?.pageNumber !== pageNumber) return null;
+
+  const factor = renderedWidth / flash.pageWidth;
+  return (
+    <>
+      {flash.rects.map((rect, index) => (
+        <div
+          key={`${flash.requestId}_${index}`}
+          data-citation-highlight
+          className="absolute pointer-events-none rounded-sm bg-yellow-300/50 ring-2 ring-yellow-400/60 animate-pulse"
+          style={{
+            left: rect.left * factor,
+            top: rect.top * factor,
+            width: rect.width * factor,
+            height: rect.height * factor,
+          }}
+        />
+      ))}
+    </>
+  );
+};
+
+export default PDFFlashHighlight;
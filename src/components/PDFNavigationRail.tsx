@@ -0,0 +1,222 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Thumbnail } from 'react-pdf';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { ChevronRight } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { loadOutline } from '../lib/pdf/outline';
+import { DEFAULT_PAGE_SIZE, PageSize } from '../lib/pdf/pageLayout';
+import { Annotation, OutlineNode } from '../types';
+import PDFAnnotationList from './PDFAnnotationList';
+
+export type NavigationRailTab = 'pages' | 'outline' | 'annotations';
+
+interface PDFNavigationRailProps {
+  pdf: PDFDocumentProxy;
+  pageSizes: PageSize[];
+  currentPage: number;
+  onNavigate: (pageNumber: number) => void;
+  tab: NavigationRailTab;
+  onTabChange: (tab: NavigationRailTab) => void;
+  annotations: Annotation[];
+  activeAnnotationId: string | null;
+  onSelectAnnotation: (annotation: Annotation) => void;
+}
+
+const THUMBNAIL_WIDTH = 112;
+
+const noop = () => {};
+
+interface LazyThumbnailProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  size: PageSize;
+  isActive: boolean;
+  root: React.RefObject<HTMLDivElement>;
+  onSelect: (pageNumber: number) => void;
+}
+
+// Renders its page only while it is near the visible part of the rail
+const LazyThumbnail = ({ pdf, pageNumber, size, isActive, root, onSelect }: LazyThumbnailProps) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [isNearViewport, setIsNearViewport] = useState(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => setIsNearViewport(entry.isIntersecting),
+      { root: root.current, rootMargin: '400px 0px' }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [root]);
+
+  useEffect(() => {
+    if (isActive) ref.current?.scrollIntoView({ block: 'nearest' });
+  }, [isActive]);
+
+  return (
+    <div
+      ref={ref}
+      role="button"
+      tabIndex={0}
+      aria-label={`Page ${pageNumber}`}
+      aria-current={isActive ? 'page' : undefined}
+      onClick={() => onSelect(pageNumber)}
+      onKeyDown={(e) => e.key === 'Enter' && onSelect(pageNumber)}
+      className="flex flex-col items-center gap-1 py-2 cursor-pointer focus:outline-none"
+    >
+      <div
+        className={`overflow-hidden rounded bg-white shadow-sm transition-all ${
+          isActive ? 'ring-2 ring-blue-500' : 'ring-1 ring-gray-200 hover:ring-gray-300'
+        }`}
+        style={{ width: THUMBNAIL_WIDTH, height: Math.round(THUMBNAIL_WIDTH * (size.height / size.width)) }}
+      >
+        {isNearViewport && (
+          <Thumbnail pdf={pdf} pageNumber={pageNumber} width={THUMBNAIL_WIDTH} loading="" onItemClick={noop} />
+        )}
+      </div>
+      <span className={`text-xs ${isActive ? 'font-medium text-blue-700' : 'text-gray-500'}`}>{pageNumber}</span>
+    </div>
+  );
+};
+
+interface OutlineItemProps {
+  node: OutlineNode;
+  depth: number;
+  activeId: string | null;
+  onNavigate: (pageNumber: number) => void;
+}
+
+const OutlineItem = ({ node, depth, activeId, onNavigate }: OutlineItemProps) => {
+  const [isExpanded, setIsExpanded] = useState(depth === 0);
+  const hasChildren = node.children.length > 0;
+
+  return (
+    <li>
+      <div
+        className={`flex items-start gap-1 rounded-md pr-2 py-1 text-sm ${
+          node.id === activeId ? 'bg-blue-100 text-blue-700' : 'text-gray-700 hover:bg-gray-100'
+        }`}
+        style={{ paddingLeft: depth * 12 + 4 }}
+      >
+        <button
+          onClick={() => setIsExpanded((expanded) => !expanded)}
+          className={`mt-0.5 flex-shrink-0 text-gray-400 hover:text-gray-600 ${hasChildren ? '' : 'invisible'}`}
+          aria-label={isExpanded ? 'Collapse' : 'Expand'}
+        >
+          <ChevronRight className={`h-3.5 w-3.5 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+        </button>
+        <button
+          onClick={() => node.pageNumber && onNavigate(node.pageNumber)}
+          disabled={!node.pageNumber}
+          className="flex-1 min-w-0 text-left leading-snug disabled:cursor-default"
+        >
+          {node.title}
+        </button>
+        {node.pageNumber && <span className="text-xs text-gray-400 mt-0.5">{node.pageNumber}</span>}
+      </div>
+      {hasChildren && isExpanded && (
+        <ul>
+          {node.children.map((child) => (
+            <OutlineItem key={child.id} node={child} depth={depth + 1} activeId={activeId} onNavigate={onNavigate} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+// The last outline entry (in reading order) that starts on or before `page`
+const findActiveNode = (nodes: OutlineNode[], page: number): string | null => {
+  let active: OutlineNode | null = null;
+  const visit = (list: OutlineNode[]) => {
+    for (const node of list) {
+      if (node.pageNumber !== null && node.pageNumber <= page && (!active || node.pageNumber >= active.pageNumber)) {
+        active = node;
+      }
+      visit(node.children);
+    }
+  };
+  visit(nodes);
+  return active?.id ?? null;
+};
+
+// Left rail inside the viewer with page thumbnails, the document outline and
+// the user's annotations.
+const PDFNavigationRail = ({
+  pdf,
+  pageSizes,
+  currentPage,
+  onNavigate,
+  tab,
+  onTabChange,
+  annotations,
+  activeAnnotationId,
+  onSelectAnnotation,
+}: PDFNavigationRailProps) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [outline, setOutline] = useState<OutlineNode[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setOutline(null);
+    loadOutline(pdf)
+      .then((nodes) => !cancelled && setOutline(nodes))
+      .catch((error) => {
+        console.error('PDF outline error:', error);
+        if (!cancelled) setOutline([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf]);
+
+  const activeOutlineId = useMemo(() => (outline ? findActiveNode(outline, currentPage) : null), [outline, currentPage]);
+
+  return (
+    <Tabs
+      value={tab}
+      onValueChange={(value) => onTabChange(value as NavigationRailTab)}
+      className="w-52 flex-shrink-0 flex flex-col border-r border-gray-200 bg-white/80"
+    >
+      <TabsList className="m-2 grid grid-cols-3 h-8">
+        <TabsTrigger value="pages" className="text-xs py-1">Pages</TabsTrigger>
+        <TabsTrigger value="outline" className="text-xs py-1">Outline</TabsTrigger>
+        <TabsTrigger value="annotations" className="text-xs py-1">Notes</TabsTrigger>
+      </TabsList>
+      <TabsContent value="pages" className="mt-0 flex-1 min-h-0">
+        <div ref={scrollRef} className="h-full overflow-y-auto px-2">
+          {Array.from({ length: pdf.numPages }, (_, index) => (
+            <LazyThumbnail
+              key={index + 1}
+              pdf={pdf}
+              pageNumber={index + 1}
+              size={pageSizes[index] ?? pageSizes[0] ?? DEFAULT_PAGE_SIZE}
+              isActive={currentPage === index + 1}
+              root={scrollRef}
+              onSelect={onNavigate}
+            />
+          ))}
+        </div>
+      </TabsContent>
+      <TabsContent value="outline" className="mt-0 flex-1 min-h-0 overflow-y-auto px-2 pb-2">
+        {outline === null && <p className="p-2 text-xs text-gray-500">Loading outline...</p>}
+        {outline?.length === 0 && <p className="p-2 text-xs text-gray-500">This document has no outline.</p>}
+        {outline && outline.length > 0 && (
+          <ul>
+            {outline.map((node) => (
+              <OutlineItem key={node.id} node={node} depth={0} activeId={activeOutlineId} onNavigate={onNavigate} />
+            ))}
+          </ul>
+        )}
+      </TabsContent>
+      <TabsContent value="annotations" className="mt-0 flex-1 min-h-0 overflow-y-auto px-2 pb-2">
+        <PDFAnnotationList annotations={annotations} activeId={activeAnnotationId} onSelect={onSelectAnnotation} />
+      </TabsContent>
+    </Tabs>
+  );
+};
+
+export default PDFNavigationRail;
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef } from 'react';
+import { ChevronUp, ChevronDown, X, CaseSensitive, WholeWord, Regex } from 'lucide-react';
+import { SearchOptions } from '../types';
+
+interface PDFSearchBarProps {
+  query: string;
+  options: SearchOptions;
+  matchCount: number;
+  activeIndex: number;
+  isInvalid: boolean;
+  isIndexing: boolean;
+  focusRequest: number;
+  onQueryChange: (query: string) => void;
+  onOptionsChange: (options: SearchOptions) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onClose: () => void;
+}
+
+const OPTION_TOGGLES: { key: keyof SearchOptions; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { key: 'caseSensitive', label: 'Match case', icon: CaseSensitive },
+  { key: 'wholeWord', label: 'Whole word', icon: WholeWord },
+  { key: 'regex', label: 'Regular expression', icon: Regex },
+];
+
+const PDFSearchBar = ({
+  query,
+  options,
+  matchCount,
+  activeIndex,
+  isInvalid,
+  isIndexing,
+  focusRequest,
+  onQueryChange,
+  onOptionsChange,
+  onNext,
+  onPrevious,
+  onClose,
+}: PDFSearchBarProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Re-focus (and select) whenever the search shortcut is pressed again
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [focusRequest]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) onPrevious();
+      else onNext();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  let status = '';
+  if (isInvalid) status = 'Invalid pattern';
+  else if (isIndexing) status = 'Reading document...';
+  else if (query) status = matchCount > 0 ? `${activeIndex + 1} of ${matchCount}` : 'No results';
+
+  const iconButton = 'p-1.5 rounded-md text-gray-600 hover:bg-gray-100 transition-colors disabled:opacity-40';
+
+  return (
+    <div className="px-4 py-2 border-b border-gray-200 bg-white flex items-center gap-2 flex-shrink-0">
+      <input
+        ref={inputRef}
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Find in document"
+        className={`flex-1 min-w-0 h-8 px-3 text-sm border rounded-md focus:outline-none focus:ring-2 ${
+          isInvalid ? 'border-red-300 focus:ring-red-400' : 'border-gray-300 focus:ring-blue-500'
+        }`}
+      />
+      <div className="flex items-center">
+        {OPTION_TOGGLES.map(({ key, label, icon: Icon }) => (
+          <button
+            key={key}
+            onClick={() => onOptionsChange({ ...options, [key]: !options[key] })}
+            title={label}
+            aria-pressed={options[key]}
+            className={`p-1.5 rounded-md transition-colors ${
+              options[key] ? 'bg-blue-100 text-blue-700' : 'text-gray-500 hover:bg-gray-100'
+            }`}
+          >
+            <Icon className="h-4 w-4" />
+          </button>
+        ))}
+      </div>
+      <span className={`text-xs min-w-[5.5rem] text-center ${isInvalid ? 'text-red-500' : 'text-gray-500'}`}>
+        {status}
+      </span>
+      <button onClick={onPrevious} disabled={matchCount === 0} className={iconButton} title="Previous match (Shift+Enter)">
+        <ChevronUp className="h-4 w-4" />
+      </button>
+      <button onClick={onNext} disabled={matchCount === 0} className={iconButton} title="Next match (Enter)">
+        <ChevronDown className="h-4 w-4" />
+      </button>
+      <button onClick={onClose} className={iconButton} title="Close (Esc)">
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+export default PDFSearchBar;
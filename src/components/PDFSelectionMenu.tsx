@@ -0,0 +1,83 @@
+import React from 'react';
+import { Lightbulb, AlignLeft, Languages, MessageCircleQuestion, StickyNote } from 'lucide-react';
+import { ANNOTATION_COLORS } from '../lib/pdf/annotations';
+import { AnnotationColor, PageQuad, SelectionActionId } from '../types';
+
+export interface PDFTextSelection {
+  text: string;
+  pageNumber: number;
+  // Viewport coordinates of the selection's bounding box
+  rect: DOMRect;
+  // Position on the page, for annotating the selection
+  quads: PageQuad[];
+}
+
+interface PDFSelectionMenuProps {
+  selection: PDFTextSelection;
+  onAction: (action: SelectionActionId) => void;
+  onHighlight: (color: AnnotationColor) => void;
+  onAddNote: () => void;
+}
+
+const ACTIONS: { id: SelectionActionId; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { id: 'explain', label: 'Explain', icon: Lightbulb },
+  { id: 'summarize', label: 'Summarize', icon: AlignLeft },
+  { id: 'translate', label: 'Translate', icon: Languages },
+  { id: 'ask', label: 'Ask about this', icon: MessageCircleQuestion },
+];
+
+const MENU_OFFSET = 8;
+const MENU_HEIGHT = 40;
+
+// Floating toolbar shown above (or, near the top edge, below) a text
+// selection in the PDF.
+const PDFSelectionMenu = ({ selection, onAction, onHighlight, onAddNote }: PDFSelectionMenuProps) => {
+  const { rect } = selection;
+  const above = rect.top - MENU_HEIGHT - MENU_OFFSET > 0;
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Selected text actions"
+      className="fixed z-50 flex items-center gap-0.5 rounded-lg border border-gray-200 bg-white p-1 shadow-lg -translate-x-1/2"
+      style={{
+        left: rect.left + rect.width / 2,
+        top: above ? rect.top - MENU_HEIGHT - MENU_OFFSET : rect.bottom + MENU_OFFSET,
+      }}
+      // Keep the text selected while a button is pressed
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {ACTIONS.map(({ id, label, icon: Icon }) => (
+        <button
+          key={id}
+          onClick={() => onAction(id)}
+          className="flex items-center gap-1.5 rounded-md px-2 py-1.5 text-xs font-medium text-gray-700 hover:bg-blue-50 hover:text-blue-700 transition-colors"
+        >
+          <Icon className="h-3.5 w-3.5" />
+          {label}
+        </button>
+      ))}
+      <div className="mx-1 h-5 w-px bg-gray-200" />
+      {(Object.keys(ANNOTATION_COLORS) as AnnotationColor[]).map((color) => (
+        <button
+          key={color}
+          onClick={() => onHighlight(color)}
+          title={`Highlight ${color}`}
+          aria-label={`Highlight ${color}`}
+          className="flex h-7 w-6 items-center justify-center rounded-md hover:bg-gray-100"
+        >
+          <span className="h-3.5 w-3.5 rounded-full ring-1 ring-black/10" style={{ backgroundColor: ANNOTATION_COLORS[color] }} />
+        </button>
+      ))}
+      <button
+        onClick={onAddNote}
+        className="flex items-center gap-1.5 rounded-md px-2 py-1.5 text-xs font-medium text-gray-700 hover:bg-blue-50 hover:text-blue-700 transition-colors"
+      >
+        <StickyNote className="h-3.5 w-3.5" />
+        Note
+      </button>
+    </div>
+  );
+};
+
+export default PDFSelectionMenu;
@@ -1,50 +1,172 @@
 
-import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import { Document, Page, pdfjs } from 'react-pdf';
-import { ZoomIn, ZoomOut, Printer } from 'lucide-react';
-import { useStore } from '../store/useStore';
+import React, { useState, useCallback, useRef, useEffect, useLayoutEffect, useMemo } from 'react';
+import { Document, Page } from 'react-pdf';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import 'react-pdf/dist/esm/Page/TextLayer.css';
+import { ZoomIn, ZoomOut, Printer, Search, PanelLeft, ChevronDown, Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useFlashHighlight, usePageSizes, useVirtualPages } from '../hooks/use-virtual-pages';
+import { selectAnnotations, useStore } from '../store/useStore';
+import { PDF_DOCUMENT_OPTIONS } from '../lib/pdf/pdfjs';
+import { getTextRangeRects } from '../lib/pdf/highlight';
+import { DEFAULT_ANNOTATION_COLOR, getRangeQuads, quadContainsPoint, quadToRect } from '../lib/pdf/annotations';
+import { annotatedFileName, exportAnnotatedPdf } from '../lib/pdf/exportAnnotations';
+import { printPdf } from '../lib/pdf/print';
+import { DEFAULT_PAGE_SIZE, PAGE_GAP } from '../lib/pdf/pageLayout';
+import { clampScale, CSS_UNITS, resolveScale, stepZoomPreset, ZOOM_PRESETS, ZoomMode } from '../lib/pdf/zoom';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { buildSearchPattern, escapeHtml, findMatches, renderHighlightedItem } from '../lib/pdf/search';
+import { SELECTION_ACTION_PROMPTS } from '../lib/chat/selectionActions';
+import {
+  Annotation,
+  AnnotationColor,
+  AnnotationKind,
+  PageTextItem,
+  SearchMatch,
+  SearchOptions,
+  SelectionActionId,
+} from '../types';
+import PDFSelectionMenu, { PDFTextSelection } from './PDFSelectionMenu';
+import PDFSearchBar from './PDFSearchBar';
+import PDFNavigationRail, { NavigationRailTab } from './PDFNavigationRail';
+import PDFAnnotationLayer from './PDFAnnotationLayer';
+import PDFFlashHighlight from './PDFFlashHighlight';
 
-// Set up PDF.js worker with better configuration
-pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.js`;
+const DEFAULT_SEARCH_OPTIONS: SearchOptions = { caseSensitive: false, wholeWord: false, regex: false };
+
+const ZOOM_MODE_LABELS: Record<Exclude<ZoomMode, 'custom'>, string> = {
+  'fit-width': 'Fit width',
+  'fit-page': 'Fit page',
+  actual: 'Actual size',
+};
+
+// Point (as a fraction of the page column) that should stay under the cursor while zooming
+interface ZoomAnchor {
+  fractionX: number;
+  fractionY: number;
+  clientX: number;
+  clientY: number;
+}
+
+interface TextRendererArgs {
+  pageNumber: number;
+  itemIndex: number;
+  str: string;
+}
 
 const PDFViewer = () => {
-  const { currentDocument } = useStore();
+  const {
+    currentDocument,
+    currentPage,
+    documentTexts,
+    viewerTarget,
+    setCurrentPage,
+    setPendingPrompt,
+    addAnnotation,
+  } = useStore();
+  const annotations = useStore((state) => selectAnnotations(state, currentDocument?.id));
   const [numPages, setNumPages] = useState<number>(0);
-  const [scale, setScale] = useState<number>(1.0);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageInput, setPageInput] = useState('1');
+  const [isRailOpen, setIsRailOpen] = useState(false);
+  const [zoomMode, setZoomMode] = useState<ZoomMode>('fit-width');
+  const [customScale, setCustomScale] = useState<number>(1.0);
   const [isDocumentLoaded, setIsDocumentLoaded] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [containerWidth, setContainerWidth] = useState<number>(800);
+  const [containerHeight, setContainerHeight] = useState<number>(600);
+  const [selection, setSelection] = useState<PDFTextSelection | null>(null);
+  const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(null);
+  const [railTab, setRailTab] = useState<NavigationRailTab>('pages');
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [activeMatchIndex, setActiveMatchIndex] = useState(0);
+  const [searchFocusRequest, setSearchFocusRequest] = useState(0);
   const containerRef = useRef<HTMLDivElement>(null);
+  const pagesRef = useRef<HTMLDivElement>(null);
+  const zoomAnchorRef = useRef<ZoomAnchor | null>(null);
+  const pageSizes = usePageSizes(pdf);
+  const { flash, showFlash } = useFlashHighlight();
+  const referencePage = pageSizes[0] ?? DEFAULT_PAGE_SIZE;
+  const scale = resolveScale(zoomMode, customScale, referencePage, {
+    width: containerWidth,
+    height: containerHeight - PAGE_GAP,
+  });
+  const pageWidth = Math.round(referencePage.width * CSS_UNITS * scale);
+  const { pageSlots, visibleRange, scheduleScrollUpdate } = useVirtualPages({
+    pageSizes,
+    numPages,
+    pageWidth,
+    containerRef,
+    pagesRef,
+  });
+  const documentText = currentDocument ? documentTexts[currentDocument.id] : undefined;
+
+  const searchPattern = useMemo(
+    () => (isSearchOpen ? buildSearchPattern(searchQuery, searchOptions) : null),
+    [isSearchOpen, searchQuery, searchOptions]
+  );
+  const searchMatches = useMemo(
+    () => (searchPattern && documentText ? findMatches(documentText.pages, searchPattern) : []),
+    [searchPattern, documentText]
+  );
+  const activeMatch: SearchMatch | null = searchMatches[activeMatchIndex] ?? null;
 
-  // Memoize PDF options to prevent unnecessary reloads
-  const pdfOptions = useMemo(() => ({
-    cMapUrl: `//unpkg.com/pdfjs-dist@${pdfjs.version}/cmaps/`,
-    cMapPacked: true,
-    standardFontDataUrl: `//unpkg.com/pdfjs-dist@${pdfjs.version}/standard_fonts/`,
-    disableAutoFetch: false,
-    disableStream: false,
-    useSystemFonts: true,
-    verbosity: 0,
-  }), []);
-
-  // Update container width on resize
+  // Per page: matches, and text runs by react-pdf item index
+  const searchLookup = useMemo(() => {
+    const matchesByPage = new Map<number, SearchMatch[]>();
+    for (const match of searchMatches) {
+      const pageMatches = matchesByPage.get(match.pageNumber) ?? [];
+      pageMatches.push(match);
+      matchesByPage.set(match.pageNumber, pageMatches);
+    }
+
+    const itemsByPage = new Map<number, Map<number, PageTextItem>>();
+    for (const pageNumber of matchesByPage.keys()) {
+      const items = documentText?.pages[pageNumber - 1]?.items ?? [];
+      itemsByPage.set(pageNumber, new Map(items.map((item) => [item.itemIndex, item])));
+    }
+    return { matchesByPage, itemsByPage };
+  }, [searchMatches, documentText]);
+
+  const customTextRenderer = useCallback(({ pageNumber, itemIndex, str }: TextRendererArgs) => {
+    const pageMatches = searchLookup.matchesByPage.get(pageNumber);
+    const item = searchLookup.itemsByPage.get(pageNumber)?.get(itemIndex);
+    return pageMatches && item ? renderHighlightedItem(item, pageMatches, activeMatch) : escapeHtml(str);
+  }, [searchLookup, activeMatch]);
+
+  // Update container width on resize (including when the navigation rail opens)
+  const hasDocument = currentDocument !== null;
   useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
     const updateContainerWidth = () => {
-      if (containerRef.current) {
-        const width = containerRef.current.clientWidth - 48; // Account for padding
-        setContainerWidth(width);
-      }
+      const width = container.clientWidth - 48; // Account for padding
+      setContainerWidth(width);
+      setContainerHeight(container.clientHeight - 48);
     };
 
     updateContainerWidth();
-    window.addEventListener('resize', updateContainerWidth);
-    return () => window.removeEventListener('resize', updateContainerWidth);
-  }, []);
+    const observer = new ResizeObserver(updateContainerWidth);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [hasDocument]);
 
-  const onDocumentLoadSuccess = useCallback(({ numPages }: { numPages: number }) => {
-    console.log('PDF loaded successfully with', numPages, 'pages');
-    setNumPages(numPages);
+  const onDocumentLoadSuccess = useCallback((document: PDFDocumentProxy) => {
+    console.log('PDF loaded successfully with', document.numPages, 'pages');
+    setPdf(document);
+    setNumPages(document.numPages);
     setIsDocumentLoaded(true);
     setIsLoading(false);
     setError(null);
@@ -72,28 +194,443 @@ const PDFViewer = () => {
     console.error(`Page ${pageNumber} render error:`, error);
   }, []);
 
-  const handlePrint = () => {
-    window.print();
+  const handleScroll = () => {
+    if (selection) setSelection(null);
+    scheduleScrollUpdate();
   };
 
+  // The current page is the one taking up most of the viewport
+  useEffect(() => {
+    const container = containerRef.current;
+    const pages = pagesRef.current;
+    if (!container || !pages || !isDocumentLoaded) return;
+
+    const visibleHeights = new Map<number, number>();
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          const pageNumber = Number((entry.target as HTMLElement).dataset.pageSlot);
+          if (entry.isIntersecting) visibleHeights.set(pageNumber, entry.intersectionRect.height);
+          else visibleHeights.delete(pageNumber);
+        }
+
+        let best = 0;
+        let bestHeight = 0;
+        visibleHeights.forEach((height, pageNumber) => {
+          if (height > bestHeight || (height === bestHeight && pageNumber < best)) {
+            best = pageNumber;
+            bestHeight = height;
+          }
+        });
+        if (best > 0 && best !== useStore.getState().currentPage) setCurrentPage(best);
+      },
+      { root: container, threshold: [0, 0.1, 0.25, 0.5, 0.75, 0.9, 1] }
+    );
+
+    pages.querySelectorAll('[data-page-slot]').forEach((slot) => observer.observe(slot));
+    return () => observer.disconnect();
+  }, [isDocumentLoaded, numPages, setCurrentPage]);
+
+  useEffect(() => {
+    setPageInput(String(currentPage));
+  }, [currentPage]);
+
+  // Scrolls so that `offset` pixels into the page sit at the top (or centre) of the viewport
+  const scrollToPage = useCallback((pageNumber: number, offset = 0, align: 'start' | 'center' = 'start') => {
+    const container = containerRef.current;
+    const slot = container?.querySelector<HTMLElement>(`[data-page-slot="${pageNumber}"]`);
+    if (!container || !slot) return;
+
+    const slotTop = slot.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+    const top = slotTop + offset - (align === 'center' ? container.clientHeight / 2 : 0);
+    // Jump straight to far-away pages instead of mounting everything in between
+    const isFar = Math.abs(top - container.scrollTop) > container.clientHeight * 3;
+    container.scrollTo({ top, behavior: isFar ? 'auto' : 'smooth' });
+  }, []);
+
+  const goToPage = useCallback((pageNumber: number) => {
+    if (numPages === 0) return;
+    scrollToPage(Math.min(Math.max(1, pageNumber), numPages));
+  }, [numPages, scrollToPage]);
+
+  const handlePageInputSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const pageNumber = Number.parseInt(pageInput, 10);
+    if (Number.isFinite(pageNumber)) goToPage(pageNumber);
+    else setPageInput(String(currentPage));
+  };
+
+  // PageUp/PageDown/Home/End move by whole pages while the viewer (or nothing)
+  // has focus, so other panels keep scrolling themselves, unless the user is typing
+  useEffect(() => {
+    if (!isDocumentLoaded) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (e.altKey || e.ctrlKey || e.metaKey) return;
+      if (target !== document.body && !containerRef.current?.contains(target)) return;
+      if (target?.closest('input, textarea, select, [contenteditable="true"], [role="dialog"]')) return;
+
+      const { currentPage: page } = useStore.getState();
+      const destinations: Record<string, number> = {
+        PageDown: page + 1,
+        PageUp: page - 1,
+        Home: 1,
+        End: numPages,
+      };
+      if (!(e.key in destinations)) return;
+
+      e.preventDefault();
+      goToPage(destinations[e.key]);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isDocumentLoaded, numPages, goToPage]);
+
+  // Only pages near the viewport are rendered, so the browser would print
+  // blank placeholders; print the PDF itself, with any annotations, instead
+  const handlePrint = useCallback(async () => {
+    if (!currentDocument) return;
+
+    setIsExporting(true);
+    try {
+      printPdf(annotations.length > 0 ? await exportAnnotatedPdf(currentDocument, annotations) : currentDocument.file);
+    } catch (error) {
+      console.error('PDF print error:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Could not print the document',
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  }, [currentDocument, annotations, toast]);
+
+  useEffect(() => {
+    if (!isDocumentLoaded) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'p') {
+        e.preventDefault();
+        handlePrint();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isDocumentLoaded, handlePrint]);
+
+  const handleExport = async () => {
+    if (!currentDocument) return;
+
+    setIsExporting(true);
+    try {
+      const blob = await exportAnnotatedPdf(currentDocument, annotations);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = annotatedFileName(currentDocument.name);
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      console.error('PDF export error:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Could not export annotations',
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const scaleRef = useRef(scale);
+  scaleRef.current = scale;
+
+  // Switches to a custom zoom, optionally keeping the point under (clientX, clientY) in place
+  const zoomTo = useCallback((nextScale: number, origin?: { clientX: number; clientY: number }) => {
+    const clampedScale = clampScale(nextScale);
+    const pages = pagesRef.current;
+    // An unchanged scale never relayouts, so an anchor would wait for an unrelated one
+    if (origin && pages && clampedScale !== scaleRef.current) {
+      const rect = pages.getBoundingClientRect();
+      zoomAnchorRef.current = {
+        fractionX: (origin.clientX - rect.left) / rect.width,
+        fractionY: (origin.clientY - rect.top) / rect.height,
+        ...origin,
+      };
+    }
+    setZoomMode('custom');
+    setCustomScale(clampedScale);
+  }, []);
+
   const handleZoomIn = () => {
-    setScale(prev => Math.min(prev + 0.25, 3.0));
+    zoomTo(stepZoomPreset(scale, 1));
   };
 
   const handleZoomOut = () => {
-    setScale(prev => Math.max(prev - 0.25, 0.5));
+    zoomTo(stepZoomPreset(scale, -1));
   };
 
-  // Reset state when document changes
+  // After a pointer-anchored zoom has been laid out, scroll the anchor back under the pointer
+  useLayoutEffect(() => {
+    const anchor = zoomAnchorRef.current;
+    const container = containerRef.current;
+    const pages = pagesRef.current;
+    if (!anchor || !container || !pages) return;
+
+    zoomAnchorRef.current = null;
+    const rect = pages.getBoundingClientRect();
+    container.scrollLeft += rect.left + anchor.fractionX * rect.width - anchor.clientX;
+    container.scrollTop += rect.top + anchor.fractionY * rect.height - anchor.clientY;
+  }, [pageWidth]);
+
+  // Ctrl+wheel (and trackpad pinch, which browsers report as Ctrl+wheel) zooms
+  // around the pointer; Safari reports trackpad pinch as gesture events.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !isDocumentLoaded) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+      zoomTo(scaleRef.current * Math.exp(-delta * 0.002), e);
+    };
+
+    let gestureStartScale = 1;
+    const handleGestureStart = (e: Event) => {
+      e.preventDefault();
+      gestureStartScale = scaleRef.current;
+    };
+    const handleGestureChange = (e: Event) => {
+      e.preventDefault();
+      const gesture = e as Event & { scale: number; clientX: number; clientY: number };
+      zoomTo(gestureStartScale * gesture.scale, gesture);
+    };
+
+    // Two-finger pinch on touch screens
+    let pinchStart: { distance: number; scale: number } | null = null;
+    const touchDistance = (touches: TouchList) =>
+      Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+    const handleTouchStart = (e: TouchEvent) => {
+      if (e.touches.length === 2) pinchStart = { distance: touchDistance(e.touches), scale: scaleRef.current };
+    };
+    const handleTouchMove = (e: TouchEvent) => {
+      if (!pinchStart || e.touches.length !== 2) return;
+      e.preventDefault();
+      zoomTo(pinchStart.scale * (touchDistance(e.touches) / pinchStart.distance), {
+        clientX: (e.touches[0].clientX + e.touches[1].clientX) / 2,
+        clientY: (e.touches[0].clientY + e.touches[1].clientY) / 2,
+      });
+    };
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) pinchStart = null;
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    container.addEventListener('gesturestart', handleGestureStart);
+    container.addEventListener('gesturechange', handleGestureChange);
+    container.addEventListener('touchstart', handleTouchStart, { passive: true });
+    container.addEventListener('touchmove', handleTouchMove, { passive: false });
+    container.addEventListener('touchend', handleTouchEnd);
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('gesturestart', handleGestureStart);
+      container.removeEventListener('gesturechange', handleGestureChange);
+      container.removeEventListener('touchstart', handleTouchStart);
+      container.removeEventListener('touchmove', handleTouchMove);
+      container.removeEventListener('touchend', handleTouchEnd);
+    };
+  }, [isDocumentLoaded, zoomTo]);
+
+  // Show the quick-action menu for text selected inside a page
+  const handleSelectionEnd = useCallback(() => {
+    const current = window.getSelection();
+    const text = current?.toString().replace(/\s+/g, ' ').trim();
+    if (!current || current.rangeCount === 0 || !text) {
+      setSelection(null);
+      return;
+    }
+
+    const anchor = current.anchorNode instanceof Element ? current.anchorNode : current.anchorNode?.parentElement;
+    const pageElement = anchor?.closest<HTMLElement>('.react-pdf__Page[data-page-number]');
+    if (!pageElement || !containerRef.current?.contains(pageElement)) {
+      setSelection(null);
+      return;
+    }
+
+    const pageNumber = Number(pageElement.dataset.pageNumber);
+    const pageSize = pageSizes[pageNumber - 1] ?? DEFAULT_PAGE_SIZE;
+    const range = current.getRangeAt(0);
+    setSelection({
+      text,
+      pageNumber,
+      rect: range.getBoundingClientRect(),
+      quads: getRangeQuads(range, pageElement, pageElement.getBoundingClientRect().width / pageSize.width),
+    });
+  }, [pageSizes]);
+
   useEffect(() => {
-    if (currentDocument) {
+    const handleSelectionChange = () => {
+      if (window.getSelection()?.isCollapsed) setSelection(null);
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, []);
+
+  const handleSelectionAction = (action: SelectionActionId) => {
+    if (!selection || !currentDocument) return;
+
+    const quote = { documentId: currentDocument.id, text: selection.text, pageNumber: selection.pageNumber };
+    setPendingPrompt(action === 'ask' ? { quote } : { quote, text: SELECTION_ACTION_PROMPTS[action]() });
+    window.getSelection()?.removeAllRanges();
+    setSelection(null);
+  };
+
+  const handleAnnotate = (kind: AnnotationKind, color: AnnotationColor = DEFAULT_ANNOTATION_COLOR) => {
+    if (!selection || !currentDocument || selection.quads.length === 0) return;
+
+    const id = addAnnotation({
+      documentId: currentDocument.id,
+      kind,
+      pageNumber: selection.pageNumber,
+      quads: selection.quads,
+      color,
+      text: selection.text,
+      note: '',
+    });
+    window.getSelection()?.removeAllRanges();
+    setSelection(null);
+    // Notes open straight away so the user can type
+    if (kind === 'note') setActiveAnnotationId(id);
+  };
+
+  // Annotation marks ignore the pointer, so find the one under a plain click
+  const handlePageClick = (e: React.MouseEvent) => {
+    if (!window.getSelection()?.isCollapsed) return;
+
+    const pageElement = (e.target as Element).closest<HTMLElement>('.react-pdf__Page[data-page-number]');
+    if (!pageElement) return;
+
+    const pageNumber = Number(pageElement.dataset.pageNumber);
+    const pageSize = pageSizes[pageNumber - 1] ?? DEFAULT_PAGE_SIZE;
+    const rect = pageElement.getBoundingClientRect();
+    const factor = rect.width / pageSize.width;
+    const x = (e.clientX - rect.left) / factor;
+    const y = (e.clientY - rect.top) / factor;
+
+    // Later annotations are drawn on top, so they win
+    const hit = [...annotations]
+      .reverse()
+      .find((annotation) => annotation.pageNumber === pageNumber && annotation.quads.some((quad) => quadContainsPoint(quad, x, y)));
+    if (hit) setActiveAnnotationId(hit.id);
+  };
+
+  const handleSelectAnnotation = (annotation: Annotation) => {
+    const pageSize = pageSizes[annotation.pageNumber - 1] ?? DEFAULT_PAGE_SIZE;
+    const [firstQuad] = annotation.quads;
+    scrollToPage(
+      annotation.pageNumber,
+      firstQuad ? quadToRect(firstQuad).top * (pageWidth / pageSize.width) : 0,
+      firstQuad ? 'center' : 'start'
+    );
+    setActiveAnnotationId(annotation.id);
+  };
+
+  const annotationsByPage = useMemo(() => {
+    const byPage = new Map<number, Annotation[]>();
+    for (const annotation of annotations) {
+      byPage.set(annotation.pageNumber, [...(byPage.get(annotation.pageNumber) ?? []), annotation]);
+    }
+    return byPage;
+  }, [annotations]);
+
+  const openSearch = useCallback(() => {
+    setIsSearchOpen(true);
+    setSearchFocusRequest((request) => request + 1);
+  }, []);
+
+  const closeSearch = () => {
+    setIsSearchOpen(false);
+    setActiveMatchIndex(0);
+  };
+
+  // Replace the browser's find, which misses pages that are not rendered
+  useEffect(() => {
+    if (!currentDocument) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        openSearch();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [currentDocument, openSearch]);
+
+  useEffect(() => {
+    setActiveMatchIndex(0);
+  }, [searchMatches]);
+
+  const stepMatch = (delta: number) => {
+    if (searchMatches.length === 0) return;
+    setActiveMatchIndex((index) => (index + delta + searchMatches.length) % searchMatches.length);
+  };
+
+  // Centre the active match, using the extracted positions so it works even
+  // before the page has been mounted
+  useEffect(() => {
+    const pageText = activeMatch && documentText?.pages[activeMatch.pageNumber - 1];
+    if (!pageText) return;
+
+    const [rect] = getTextRangeRects(pageText, activeMatch.start, activeMatch.end);
+    scrollToPage(activeMatch.pageNumber, rect ? rect.top * (pageWidth / pageText.width) : 0, 'center');
+    // Only re-run when the active match itself changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeMatch]);
+
+  // Reset state when document changes (not when it is merely renamed or pinned)
+  const currentDocumentId = currentDocument?.id;
+  useEffect(() => {
+    if (currentDocumentId) {
       setIsDocumentLoaded(false);
       setNumPages(0);
-      setScale(1.0);
+      setZoomMode('fit-width');
+      setCustomScale(1.0);
       setIsLoading(false);
       setError(null);
+      setSelection(null);
+      setActiveAnnotationId(null);
+      setActiveMatchIndex(0);
+      setPdf(null);
+    }
+  }, [currentDocumentId]);
+
+  // Scroll to pages requested elsewhere (e.g. citation chips) and flash the cited text
+  useEffect(() => {
+    if (!viewerTarget || !isDocumentLoaded || viewerTarget.documentId !== currentDocument?.id) return;
+
+    const pageText = useStore.getState().documentTexts[viewerTarget.documentId]?.pages[viewerTarget.pageNumber - 1];
+    if (!viewerTarget.highlight || !pageText) {
+      scrollToPage(viewerTarget.pageNumber);
+      return;
     }
-  }, [currentDocument]);
+
+    const rects = getTextRangeRects(pageText, viewerTarget.highlight.start, viewerTarget.highlight.end);
+    const factor = pageWidth / pageText.width;
+    scrollToPage(viewerTarget.pageNumber, rects.length > 0 ? rects[0].top * factor : 0, rects.length > 0 ? 'center' : 'start');
+
+    showFlash({
+      requestId: viewerTarget.requestId,
+      pageNumber: viewerTarget.pageNumber,
+      pageWidth: pageText.width,
+      rects,
+    });
+    // Zooming should not replay the navigation
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [viewerTarget, isDocumentLoaded, currentDocument, scrollToPage]);
 
   if (!currentDocument) {
     return (
@@ -124,6 +661,14 @@ const PDFViewer = () => {
             overflow: hidden !important;
             background: white !important;
           }
+          .pdf-search-hit {
+            background: rgba(250, 204, 21, 0.45);
+            color: transparent;
+            border-radius: 2px;
+          }
+          .pdf-search-hit-active {
+            background: rgba(249, 115, 22, 0.6);
+          }
           .react-pdf__Page__canvas {
             display: block !important;
             margin: 0 auto !important;
@@ -142,9 +687,19 @@ const PDFViewer = () => {
               {currentDocument.name}
             </div>
             {isDocumentLoaded && (
-              <div className="text-sm text-gray-500">
-                {numPages} pages
-              </div>
+              <form onSubmit={handlePageInputSubmit} className="flex items-center gap-1.5 text-sm text-gray-500">
+                <span>Page</span>
+                <input
+                  value={pageInput}
+                  onChange={(e) => setPageInput(e.target.value.replace(/\D/g, ''))}
+                  onBlur={() => setPageInput(String(currentPage))}
+                  onFocus={(e) => e.target.select()}
+                  inputMode="numeric"
+                  aria-label="Current page"
+                  className="w-12 h-7 px-1 text-center text-gray-700 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <span>of {numPages}</span>
+              </form>
             )}
             {isLoading && (
               <div className="flex items-center space-x-2 text-sm text-blue-600">
@@ -156,6 +711,16 @@ const PDFViewer = () => {
 
           {/* Zoom Controls */}
           <div className="flex items-center space-x-2 bg-white rounded-lg border border-gray-200 p-1">
+            <button
+              onClick={() => setIsRailOpen((open) => !open)}
+              disabled={!isDocumentLoaded}
+              title={isRailOpen ? 'Hide pages and outline' : 'Show pages and outline'}
+              aria-pressed={isRailOpen}
+              className={`p-2 rounded-md transition-colors disabled:opacity-50 ${isRailOpen ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+            >
+              <PanelLeft className={`h-4 w-4 ${isRailOpen ? 'text-blue-600' : 'text-gray-600'}`} />
+            </button>
+            <div className="w-px h-6 bg-gray-200 mx-1" />
             <button
               onClick={handleZoomOut}
               disabled={!isDocumentLoaded}
@@ -163,9 +728,32 @@ const PDFViewer = () => {
             >
               <ZoomOut className="h-4 w-4 text-gray-600" />
             </button>
-            <span className="text-sm text-gray-600 min-w-[3rem] text-center px-2">
-              {Math.round(scale * 100)}%
-            </span>
+            <DropdownMenu>
+              <DropdownMenuTrigger
+                disabled={!isDocumentLoaded}
+                className="flex items-center gap-1 text-sm text-gray-600 min-w-[4.5rem] justify-center px-2 py-1.5 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                {Math.round(scale * 100)}%
+                <ChevronDown className="h-3 w-3" />
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="center">
+                {(Object.keys(ZOOM_MODE_LABELS) as (keyof typeof ZOOM_MODE_LABELS)[]).map((mode) => (
+                  <DropdownMenuItem
+                    key={mode}
+                    onSelect={() => setZoomMode(mode)}
+                    className={zoomMode === mode ? 'font-medium text-blue-700' : ''}
+                  >
+                    {ZOOM_MODE_LABELS[mode]}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                {ZOOM_PRESETS.map((preset) => (
+                  <DropdownMenuItem key={preset} onSelect={() => zoomTo(preset)}>
+                    {Math.round(preset * 100)}%
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
             <button
               onClick={handleZoomIn}
               disabled={!isDocumentLoaded}
@@ -175,64 +763,160 @@ const PDFViewer = () => {
             </button>
             <div className="w-px h-6 bg-gray-200 mx-1" />
             <button
-              onClick={handlePrint}
+              onClick={openSearch}
               disabled={!isDocumentLoaded}
+              title="Find in document (Ctrl+F)"
+              className="p-2 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              <Search className="h-4 w-4 text-gray-600" />
+            </button>
+            <button
+              onClick={handlePrint}
+              disabled={!isDocumentLoaded || isExporting}
+              title="Print (Ctrl+P)"
               className="p-2 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
             >
               <Printer className="h-4 w-4 text-gray-600" />
             </button>
+            <button
+              onClick={handleExport}
+              disabled={!isDocumentLoaded || annotations.length === 0 || isExporting}
+              title="Download PDF with highlights and notes"
+              className="p-2 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              <Download className="h-4 w-4 text-gray-600" />
+            </button>
           </div>
         </div>
       </div>
 
-      {/* PDF Display - Vertical Scrollable */}
-      <div ref={containerRef} className="flex-1 overflow-auto bg-gradient-to-br from-gray-50 to-blue-50 p-6">
-        <div className="flex justify-center">
-          <div className="pdf-container max-w-full mx-auto">
-            <Document
-              file={currentDocument.url}
-              onLoadSuccess={onDocumentLoadSuccess}
-              onLoadError={onDocumentLoadError}
-              onLoadStart={onDocumentLoadStart}
-              loading={
-                <div className="flex items-center justify-center p-16 min-h-[600px]">
-                  <div className="flex items-center space-x-3">
-                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-                    <div className="text-gray-600 text-lg">Loading PDF...</div>
-                  </div>
-                </div>
-              }
-              error={
-                <div className="flex items-center justify-center p-16 min-h-[600px]">
-                  <div className="text-red-500 text-center">
-                    <div className="text-xl font-medium mb-2">Error loading PDF</div>
-                    <div className="text-base">Please try uploading the file again or use a different PDF.</div>
+      {isSearchOpen && (
+        <PDFSearchBar
+          query={searchQuery}
+          options={searchOptions}
+          matchCount={searchMatches.length}
+          activeIndex={activeMatchIndex}
+          isInvalid={searchQuery !== '' && searchPattern === null}
+          isIndexing={documentText?.status === 'extracting'}
+          focusRequest={searchFocusRequest}
+          onQueryChange={setSearchQuery}
+          onOptionsChange={setSearchOptions}
+          onNext={() => stepMatch(1)}
+          onPrevious={() => stepMatch(-1)}
+          onClose={closeSearch}
+        />
+      )}
+
+      <div className="flex-1 flex min-h-0">
+        {isRailOpen && pdf && (
+          <PDFNavigationRail
+            pdf={pdf}
+            pageSizes={pageSizes}
+            currentPage={currentPage}
+            onNavigate={(pageNumber) => scrollToPage(pageNumber)}
+            tab={railTab}
+            onTabChange={setRailTab}
+            annotations={annotations}
+            activeAnnotationId={activeAnnotationId}
+            onSelectAnnotation={handleSelectAnnotation}
+          />
+        )}
+
+        {/* PDF Display - Vertical Scrollable */}
+        <div
+          ref={containerRef}
+          tabIndex={-1}
+          className="flex-1 min-w-0 overflow-auto outline-none bg-gradient-to-br from-gray-50 to-blue-50 p-6 touch-pan-x touch-pan-y"
+          onMouseUp={handleSelectionEnd}
+          onKeyUp={handleSelectionEnd}
+          onClick={handlePageClick}
+          onScroll={handleScroll}
+        >
+          {/* w-max lets wide pages scroll horizontally instead of being clipped when centred */}
+          <div className="w-max min-w-full">
+            <div className="pdf-container mx-auto" style={{ width: isDocumentLoaded ? pageWidth : undefined }}>
+              <Document
+                file={currentDocument.url}
+                onLoadSuccess={onDocumentLoadSuccess}
+                onLoadError={onDocumentLoadError}
+                onLoadStart={onDocumentLoadStart}
+                loading={
+                  <div className="flex items-center justify-center p-16 min-h-[600px]">
+                    <div className="flex items-center space-x-3">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                      <div className="text-gray-600 text-lg">Loading PDF...</div>
+                    </div>
                   </div>
-                </div>
-              }
-              options={pdfOptions}
-            >
-              {isDocumentLoaded && Array.from(new Array(numPages), (el, index) => (
-                <Page
-                  key={`page_${index + 1}_${scale}`}
-                  pageNumber={index + 1}
-                  width={Math.min(containerWidth * scale, containerWidth)}
-                  onLoadError={(error) => onPageLoadError(error, index + 1)}
-                  onRenderError={(error) => onPageRenderError(error, index + 1)}
-                  loading={
-                    <div className="bg-white shadow-lg mx-auto flex items-center justify-center animate-pulse border border-gray-200 rounded mb-5" style={{ width: Math.min(containerWidth * scale, containerWidth), height: Math.min(containerWidth * scale * 1.414, containerWidth * 1.414) }}>
-                      <div className="text-gray-400">Loading page {index + 1}...</div>
+                }
+                error={
+                  <div className="flex items-center justify-center p-16 min-h-[600px]">
+                    <div className="text-red-500 text-center">
+                      <div className="text-xl font-medium mb-2">Error loading PDF</div>
+                      <div className="text-base">Please try uploading the file again or use a different PDF.</div>
                     </div>
-                  }
-                  renderTextLayer={false}
-                  renderAnnotationLayer={false}
-                  className="pdf-page"
-                />
-              ))}
-            </Document>
+                  </div>
+                }
+                options={PDF_DOCUMENT_OPTIONS}
+              >
+                {isDocumentLoaded && (
+                  <div ref={pagesRef} style={{ width: pageWidth }}>
+                    {pageSlots.map((slot, index) => {
+                      const pageNumber = index + 1;
+                      const pageHeight = slot.height - PAGE_GAP;
+                      const isMounted = pageNumber >= visibleRange.first && pageNumber <= visibleRange.last;
+
+                      return (
+                        <div key={pageNumber} data-page-slot={pageNumber} style={{ height: slot.height }}>
+                          {isMounted ? (
+                            <Page
+                              pageNumber={pageNumber}
+                              width={pageWidth}
+                              onLoadError={(error) => onPageLoadError(error, pageNumber)}
+                              onRenderError={(error) => onPageRenderError(error, pageNumber)}
+                              loading={
+                                <div className="bg-white shadow-lg mx-auto flex items-center justify-center animate-pulse border border-gray-200 rounded" style={{ width: pageWidth, height: pageHeight }}>
+                                  <div className="text-gray-400">Loading page {pageNumber}...</div>
+                                </div>
+                              }
+                              renderTextLayer={true}
+                              customTextRenderer={isSearchOpen && searchMatches.length > 0 ? customTextRenderer : undefined}
+                              renderAnnotationLayer={false}
+                              className="pdf-page"
+                            >
+                              <PDFAnnotationLayer
+                                annotations={annotationsByPage.get(pageNumber) ?? []}
+                                scale={pageWidth / (pageSizes[index] ?? DEFAULT_PAGE_SIZE).width}
+                                activeId={activeAnnotationId}
+                                onActiveChange={setActiveAnnotationId}
+                              />
+                              <PDFFlashHighlight flash={flash} pageNumber={pageNumber} renderedWidth={pageWidth} />
+                            </Page>
+                          ) : (
+                            <div
+                              className="bg-white/70 mx-auto border border-gray-200 rounded-lg"
+                              style={{ width: pageWidth, height: pageHeight }}
+                            />
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </Document>
+            </div>
           </div>
         </div>
+
       </div>
+
+      {selection && (
+        <PDFSelectionMenu
+          selection={selection}
+          onAction={handleSelectionAction}
+          onHighlight={(color) => handleAnnotate('highlight', color)}
+          onAddNote={() => handleAnnotate('note')}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,278 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useStore } from '../store/useStore';
+import { getChatConfig, PROVIDER_IDS } from '../lib/chat';
+import { getRetrievalConfig } from '../lib/retrieval';
+import { ChatProviderId, ChatSettings } from '../types';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+
+interface SettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PROVIDER_LABELS: Record<ChatProviderId, string> = {
+  openai: 'OpenAI-compatible API',
+  mock: 'Mock (local echo, no model)',
+};
+
+const PROVIDER_DESCRIPTIONS: Record<ChatProviderId, string> = {
+  openai: 'Any server implementing the OpenAI chat completions API.',
+  mock: 'Echoes each question back with citations to the retrieved passages, without calling a model.',
+};
+
+const MAX_SYSTEM_PROMPT_LENGTH = 4000;
+
+// Blank number fields mean "use the default"
+const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+const unlessDefault = <T,>(value: T, fallback: T) => (value === fallback ? undefined : value);
+
+const isOptionalNumber = (value: string, isValid: (number: number) => boolean) => {
+  const number = toNumber(value);
+  return number === undefined || isValid(number);
+};
+
+const settingsSchema = z.object({
+  provider: z.enum(PROVIDER_IDS),
+  endpoint: z.string().trim().url('Enter a URL such as https://api.openai.com/v1'),
+  model: z.string().trim().min(1, 'Enter a model name'),
+  apiKey: z.string().trim(),
+  temperature: z
+    .string()
+    .refine((value) => isOptionalNumber(value, (number) => number >= 0 && number <= 2), 'Enter a number from 0 to 2'),
+  maxTokens: z
+    .string()
+    .refine((value) => isOptionalNumber(value, (number) => Number.isInteger(number) && number > 0), 'Enter a whole number above 0'),
+  topK: z
+    .string()
+    .refine(
+      (value) => value.trim() !== '' && isOptionalNumber(value, (number) => Number.isInteger(number) && number >= 1 && number <= 50),
+      'Enter a whole number from 1 to 50'
+    ),
+  systemPrompt: z.string().max(MAX_SYSTEM_PROMPT_LENGTH, `Keep it under ${MAX_SYSTEM_PROMPT_LENGTH} characters`),
+});
+
+type SettingsFormValues = z.infer<typeof settingsSchema>;
+
+// The form shows the settings in effect, including defaults from the environment
+const toFormValues = (settings: ChatSettings, apiKey: string): SettingsFormValues => {
+  const chat = getChatConfig(settings, apiKey);
+  return {
+    provider: chat.provider,
+    endpoint: chat.endpoint,
+    model: chat.model,
+    apiKey,
+    temperature: settings.temperature?.toString() ?? '',
+    maxTokens: settings.maxTokens?.toString() ?? '',
+    topK: String(getRetrievalConfig(settings).topK),
+    systemPrompt: settings.systemPrompt ?? '',
+  };
+};
+
+// Chat settings for the workspace. Everything except the API key is stored
+// with the workspace; the key only lasts for the browser session.
+const SettingsDialog = ({ open, onOpenChange }: SettingsDialogProps) => {
+  const { chatSettings, chatApiKey, setChatSettings, setChatApiKey } = useStore();
+  const { toast } = useToast();
+  const form = useForm<SettingsFormValues>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: toFormValues(chatSettings, chatApiKey),
+  });
+
+  // Discard unsaved edits whenever the dialog is reopened
+  useEffect(() => {
+    if (open) form.reset(toFormValues(chatSettings, chatApiKey));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  // Only values that differ from the environment defaults are stored, so the
+  // workspace keeps following the defaults for everything else
+  const handleSubmit = (values: SettingsFormValues) => {
+    const chatDefaults = getChatConfig();
+    setChatSettings({
+      provider: unlessDefault(values.provider, chatDefaults.provider),
+      endpoint: unlessDefault(values.endpoint, chatDefaults.endpoint),
+      model: unlessDefault(values.model, chatDefaults.model),
+      temperature: unlessDefault(toNumber(values.temperature), chatDefaults.temperature),
+      maxTokens: unlessDefault(toNumber(values.maxTokens), chatDefaults.maxTokens),
+      topK: unlessDefault(toNumber(values.topK), getRetrievalConfig().topK),
+      systemPrompt: values.systemPrompt.trim() || undefined,
+    });
+    setChatApiKey(values.apiKey);
+    toast({ title: 'Settings saved' });
+    onOpenChange(false);
+  };
+
+  // The API key is kept; it has no default to go back to
+  const restoreDefaults = () => {
+    form.reset(toFormValues({}, form.getValues('apiKey')));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>
+            How the assistant answers in this workspace. The API key is only kept for this browser session.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="provider"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Model provider</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {PROVIDER_IDS.map((id) => (
+                        <SelectItem key={id} value={id}>{PROVIDER_LABELS[id]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>{PROVIDER_DESCRIPTIONS[field.value]}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="endpoint"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Endpoint URL</FormLabel>
+                  <FormControl>
+                    <Input placeholder="https://api.openai.com/v1" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="model"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Model</FormLabel>
+                  <FormControl>
+                    <Input placeholder="gpt-4o-mini" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="apiKey"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>API key</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="off" placeholder="Optional" {...field} />
+                  </FormControl>
+                  <FormDescription>Cleared when this tab is closed.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="temperature"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Temperature</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.1" min={0} max={2} placeholder="Default" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxTokens"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max tokens</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} placeholder="Default" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="topK"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Passages (top-k)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={50} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="systemPrompt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>System prompt</FormLabel>
+                  <FormControl>
+                    <Textarea rows={4} placeholder="e.g. Answer in plain language for a non-specialist." {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Added ahead of the instructions for citing the document, which are always sent.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="gap-2 sm:justify-between">
+              <Button type="button" variant="ghost" onClick={restoreDefaults}>
+                Restore defaults
+              </Button>
+              <div className="flex gap-2 justify-end">
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">Save</Button>
+              </div>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SettingsDialog;
@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from 'react';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+// Whether the browser believes it has a network connection. A `true` does not
+// mean any particular server is reachable.
+export const useOnlineStatus = () => useSyncExternalStore(subscribe, () => navigator.onLine);
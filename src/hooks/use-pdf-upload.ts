@@ -0,0 +1,161 @@
+import { useCallback, useRef, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useStore } from '../store/useStore';
+import { PDFDocument, UploadItem } from '../types';
+import {
+  getContentHash,
+  getUploadConfig,
+  hashBytes,
+  hasPdfHeader,
+  isHiddenOrSystemFile,
+  readFileBytes,
+  validateFile,
+} from '../lib/upload';
+
+// How long a batch that went through cleanly stays in the progress list
+const CLEAR_DELAY_MS = 3000;
+
+// Imports batches of PDFs: validates each file, skips ones whose content is
+// already in the workspace, and reports per-file progress.
+export const usePdfUpload = () => {
+  const { toast } = useToast();
+  const [uploads, setUploads] = useState<UploadItem[]>([]);
+  const queueRef = useRef(Promise.resolve());
+  const clearTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingBatchesRef = useRef(0);
+  const hasFailuresRef = useRef(false);
+
+  const updateUpload = (id: string, patch: Partial<UploadItem>) =>
+    setUploads((items) => items.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+
+  const importBatch = useCallback(
+    async (files: File[], items: UploadItem[]) => {
+      const config = getUploadConfig();
+      const { addDocument, setCurrentDocument } = useStore.getState();
+      const knownHashes = new Map<string, string>();
+      for (const document of useStore.getState().documents) {
+        try {
+          knownHashes.set(await getContentHash(document), document.name);
+        } catch (error) {
+          console.error('Failed to hash document:', error);
+        }
+      }
+
+      const failures: string[] = [];
+      let firstAdded: PDFDocument | null = null;
+
+      for (const [index, file] of files.entries()) {
+        const { id } = items[index];
+        const fail = (reason: string, status: UploadItem['status'] = 'error') => {
+          updateUpload(id, { status, error: reason });
+          failures.push(`${file.name}: ${reason}`);
+        };
+
+        const invalid = validateFile(file, config);
+        if (invalid) {
+          fail(invalid);
+          continue;
+        }
+
+        try {
+          updateUpload(id, { status: 'reading' });
+          const bytes = await readFileBytes(file, (fraction) => updateUpload(id, { progress: Math.round(fraction * 100) }));
+          if (!hasPdfHeader(bytes)) {
+            fail('File is not a valid PDF');
+            continue;
+          }
+
+          const contentHash = await hashBytes(bytes);
+          const existing = knownHashes.get(contentHash);
+          if (existing) {
+            fail(`Already uploaded as ${existing}`, 'duplicate');
+            continue;
+          }
+          knownHashes.set(contentHash, file.name);
+
+          const document: PDFDocument = {
+            id: crypto.randomUUID(),
+            name: file.name,
+            file,
+            url: URL.createObjectURL(file),
+            contentHash,
+            addedAt: new Date(),
+            folder: '',
+            tags: [],
+          };
+          addDocument(document);
+          firstAdded ??= document;
+          updateUpload(id, { status: 'added', progress: 100 });
+        } catch (error) {
+          console.error('PDF upload error:', error);
+          fail(error instanceof Error ? error.message : 'Could not read file');
+        }
+      }
+
+      if (firstAdded) setCurrentDocument(firstAdded);
+
+      // The toaster shows one toast at a time, so a batch reports all its problems together
+      if (failures.length > 0) {
+        toast({
+          variant: 'destructive',
+          title: failures.length === 1 ? 'A file was not uploaded' : `${failures.length} files were not uploaded`,
+          description: failures.slice(0, 5).join('\n') + (failures.length > 5 ? `\n…and ${failures.length - 5} more` : ''),
+        });
+      }
+      return failures.length;
+    },
+    [toast]
+  );
+
+  const uploadFiles = useCallback(
+    (fileList: Iterable<File>) => {
+      const files = [...fileList].filter((file) => !isHiddenOrSystemFile(file));
+      if (files.length === 0) return;
+
+      const items: UploadItem[] = files.map((file) => ({
+        id: crypto.randomUUID(),
+        name: file.name,
+        size: file.size,
+        status: 'pending',
+        progress: 0,
+      }));
+      if (clearTimerRef.current) clearTimeout(clearTimerRef.current);
+      setUploads((current) => [...current, ...items]);
+      pendingBatchesRef.current += 1;
+
+      // Batches run one after another so duplicates across batches are caught too
+      queueRef.current = queueRef.current
+        .then(() => importBatch(files, items))
+        .catch((error) => {
+          // Keep the queue alive for later batches; whatever this one had not
+          // finished is listed as failed
+          console.error('PDF upload batch error:', error);
+          const ids = new Set(items.map((item) => item.id));
+          setUploads((current) =>
+            current.map((item) =>
+              ids.has(item.id) && (item.status === 'pending' || item.status === 'reading')
+                ? { ...item, status: 'error', error: 'Upload failed' }
+                : item
+            )
+          );
+          return items.length;
+        })
+        .then((failureCount) => {
+          pendingBatchesRef.current -= 1;
+          if (failureCount > 0) hasFailuresRef.current = true;
+          // Problems stay listed until dismissed
+          if (pendingBatchesRef.current === 0 && !hasFailuresRef.current) {
+            clearTimerRef.current = setTimeout(() => setUploads([]), CLEAR_DELAY_MS);
+          }
+        });
+    },
+    [importBatch]
+  );
+
+  const clearUploads = useCallback(() => {
+    hasFailuresRef.current = false;
+    setUploads((current) => current.filter((item) => item.status === 'pending' || item.status === 'reading'));
+  }, []);
+
+  return { uploads, uploadFiles, clearUploads };
+};
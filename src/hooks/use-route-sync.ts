@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useNavigationType, useParams } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+import { selectConversation, useStore } from '../store/useStore';
+import { documentPath, parseDocumentRoute } from '../lib/routes';
+
+// Scrolling only adds a history entry once the reader stops on a page
+const PAGE_SETTLE_MS = 800;
+
+// The last passage cited in a thread, which is what a link to it should open
+const findLastCitation = (documentId: string, threadId: string) => {
+  const thread = useStore.getState().conversations[documentId]?.threads.find((candidate) => candidate.id === threadId);
+  if (!thread) return undefined;
+  const message = [...thread.messages].reverse().find((candidate) => candidate.citations?.length);
+  return message?.citations?.[0] ?? null;
+};
+
+// Keeps the open document, page and conversation in sync with the URL:
+// links opened from outside (or reached with back/forward) select what they
+// name, and selections made in the app are pushed as new history entries.
+export const useRouteSync = () => {
+  const params = useParams();
+  const navigate = useNavigate();
+  const navigationType = useNavigationType();
+  const { toast } = useToast();
+  const isHydrated = useStore((state) => state.isHydrated);
+  const currentDocumentId = useStore((state) => state.currentDocument?.id);
+  const currentPage = useStore((state) => state.currentPage);
+  const activeThreadId = useStore((state) => selectConversation(state, state.currentDocument?.id).activeThreadId);
+  const [settledPage, setSettledPage] = useState(currentPage);
+  // What the store held the last time the URL was updated from it
+  const lastSyncedRef = useRef<{
+    documentId?: string;
+    page: number;
+    threadId: string | null;
+    viewerRequestId?: number;
+  }>({ page: currentPage, threadId: null });
+
+  const route = parseDocumentRoute(params);
+  const routeDocumentId = route?.documentId;
+  const routePage = route?.pageNumber;
+  const routeThreadId = route?.threadId;
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSettledPage(currentPage), PAGE_SETTLE_MS);
+    return () => clearTimeout(timer);
+  }, [currentPage]);
+
+  // URL -> store, for pasted links, reloads and back/forward
+  useEffect(() => {
+    if (!isHydrated || navigationType !== 'POP' || !routeDocumentId) return;
+
+    const { documents, currentDocument, currentPage, navigateTo, setActiveThread, setChatScope } = useStore.getState();
+    if (!documents.some((document) => document.id === routeDocumentId)) {
+      toast({
+        variant: 'destructive',
+        title: 'Document not found',
+        description: 'The link points to a document that is not in this library.',
+      });
+      return;
+    }
+
+    if (routeThreadId) {
+      const citation = findLastCitation(routeDocumentId, routeThreadId);
+      if (citation === undefined) {
+        toast({ variant: 'destructive', title: 'Conversation not found' });
+      } else {
+        setChatScope([]);
+        setActiveThread({ documentId: routeDocumentId, threadId: routeThreadId });
+        navigateTo(
+          citation
+            ? {
+                documentId: routeDocumentId,
+                pageNumber: citation.pageNumber,
+                highlight: { start: citation.start, end: citation.end },
+              }
+            : { documentId: routeDocumentId, pageNumber: 1 }
+        );
+        return;
+      }
+    }
+
+    const isOpen = currentDocument?.id === routeDocumentId;
+    if (!isOpen || (routePage && routePage !== currentPage)) {
+      navigateTo({ documentId: routeDocumentId, pageNumber: routePage ?? 1 });
+    }
+    // Only a change of URL should select anything
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isHydrated, routeDocumentId, routePage, routeThreadId]);
+
+  // Store -> URL
+  useEffect(() => {
+    if (!isHydrated) return;
+
+    // Read the store directly: the URL effect above may have just updated it
+    const { documents, currentDocument, currentPage, viewerTarget } = useStore.getState();
+    const documentId = currentDocument?.id;
+    const threadId = selectConversation(useStore.getState(), documentId).activeThreadId;
+    const last = lastSyncedRef.current;
+    const isSameDocument = last.documentId === documentId;
+    lastSyncedRef.current = { documentId, page: settledPage, threadId, viewerRequestId: viewerTarget?.requestId };
+
+    const isRouteValid = routeDocumentId !== undefined && documents.some((document) => document.id === routeDocumentId);
+    if (!documentId) {
+      if (routeDocumentId) navigate('/', { replace: true });
+      return;
+    }
+    if (routeDocumentId !== documentId) {
+      // A document opened at a citation or search hit links to that page
+      const isNewTarget = viewerTarget?.documentId === documentId && viewerTarget.requestId !== last.viewerRequestId;
+      const pageNumber = isNewTarget ? viewerTarget.pageNumber : currentPage;
+      // Links to missing documents, and the bare root, are corrected in place
+      navigate(documentPath({ documentId, pageNumber }), { replace: !isRouteValid });
+      return;
+    }
+    if (!isSameDocument) return;
+
+    // Thread links name no page
+    const routeShowsPage = routePage ?? (routeThreadId ? null : 1);
+    if (threadId && threadId !== last.threadId && threadId !== routeThreadId) {
+      navigate(documentPath({ documentId, threadId }));
+    } else if (settledPage !== last.page && settledPage === currentPage && settledPage !== routeShowsPage) {
+      navigate(documentPath({ documentId, pageNumber: settledPage }));
+    }
+  }, [isHydrated, currentDocumentId, activeThreadId, settledPage, routeDocumentId, routePage, routeThreadId, navigate]);
+};
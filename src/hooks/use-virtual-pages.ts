@@ -0,0 +1,136 @@
+import { RefObject, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { computePageSlots, DEFAULT_PAGE_SIZE, findVisiblePages, PageRange, PageSize } from '../lib/pdf/pageLayout';
+import { PageRect } from '../types';
+
+// Pages within this distance of the viewport stay mounted
+const OVERSCAN_PX = 1200;
+
+const FLASH_DURATION_MS = 2500;
+
+// Text briefly highlighted after navigating to it
+export interface FlashHighlight {
+  requestId: number;
+  pageNumber: number;
+  // Width of the page, in PDF units, that `rects` were measured against
+  pageWidth: number;
+  rects: PageRect[];
+}
+
+// Measures every page up front so placeholders for unmounted pages have the
+// right height. Cleared while no document is loaded.
+export const usePageSizes = (pdf: PDFDocumentProxy | null) => {
+  const [pageSizes, setPageSizes] = useState<PageSize[]>([]);
+
+  useEffect(() => {
+    setPageSizes([]);
+    if (!pdf) return;
+    let cancelled = false;
+
+    (async () => {
+      const sizes: PageSize[] = [];
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        if (cancelled) return;
+        const { width, height } = page.getViewport({ scale: 1 });
+        sizes.push({ width, height });
+        if (pageNumber === 1) setPageSizes([sizes[0]]);
+      }
+      setPageSizes(sizes);
+    })().catch((error) => console.error('PDF page measurement error:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf]);
+
+  return pageSizes;
+};
+
+interface VirtualPagesOptions {
+  pageSizes: PageSize[];
+  numPages: number;
+  pageWidth: number;
+  // The scrolling element
+  containerRef: RefObject<HTMLElement>;
+  // The element holding the page slots, somewhere inside the container
+  pagesRef: RefObject<HTMLElement>;
+}
+
+// Lays out `numPages` pages at `pageWidth` and tracks which of them are near
+// enough to the viewport to be mounted.
+export const useVirtualPages = ({ pageSizes, numPages, pageWidth, containerRef, pagesRef }: VirtualPagesOptions) => {
+  const [visibleRange, setVisibleRange] = useState<PageRange>({ first: 1, last: 0 });
+  const scrollFrameRef = useRef<number | null>(null);
+
+  // Until every page has been measured, assume they all match the first one
+  const pageSlots = useMemo(() => {
+    const sizes = pageSizes.length === numPages
+      ? pageSizes
+      : Array.from({ length: numPages }, () => pageSizes[0] ?? DEFAULT_PAGE_SIZE);
+    return computePageSlots(sizes, pageWidth);
+  }, [pageSizes, numPages, pageWidth]);
+
+  // Offset of the first page slot within the container's scrollable content
+  const getPagesTop = useCallback(() => {
+    const container = containerRef.current;
+    const pages = pagesRef.current;
+    if (!container || !pages) return null;
+    return pages.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+  }, [containerRef, pagesRef]);
+
+  const updateVisibleRange = useCallback(() => {
+    const container = containerRef.current;
+    const pagesTop = getPagesTop();
+    if (!container || pagesTop === null) return;
+
+    const range = findVisiblePages(pageSlots, container.scrollTop - pagesTop, container.clientHeight, OVERSCAN_PX);
+    setVisibleRange((current) =>
+      current.first === range.first && current.last === range.last ? current : range
+    );
+  }, [containerRef, getPagesTop, pageSlots]);
+
+  useEffect(() => {
+    updateVisibleRange();
+    window.addEventListener('resize', updateVisibleRange);
+    return () => window.removeEventListener('resize', updateVisibleRange);
+  }, [updateVisibleRange]);
+
+  // Call from the container's scroll handler. Updates the mounted pages, then
+  // runs `onFrame`, at most once per animation frame.
+  const scheduleScrollUpdate = (onFrame?: () => void) => {
+    if (scrollFrameRef.current !== null) return;
+    scrollFrameRef.current = requestAnimationFrame(() => {
+      scrollFrameRef.current = null;
+      updateVisibleRange();
+      onFrame?.();
+    });
+  };
+
+  useEffect(() => () => {
+    if (scrollFrameRef.current !== null) cancelAnimationFrame(scrollFrameRef.current);
+  }, []);
+
+  return { pageSlots, visibleRange, getPagesTop, scheduleScrollUpdate };
+};
+
+// The highlight shown after navigating to a passage, cleared after a moment
+export const useFlashHighlight = () => {
+  const [flash, setFlash] = useState<FlashHighlight | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const showFlash = useCallback((highlight: FlashHighlight) => {
+    if (timerRef.current !== null) clearTimeout(timerRef.current);
+    setFlash(highlight);
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      setFlash(null);
+    }, FLASH_DURATION_MS);
+  }, []);
+
+  useEffect(() => () => {
+    if (timerRef.current !== null) clearTimeout(timerRef.current);
+  }, []);
+
+  return { flash, showFlash };
+};
@@ -0,0 +1,48 @@
+import { Citation, TextChunk } from '../../types';
+
+const CITATION_PATTERN = /\[(\d+)\]/g;
+
+// Labels the passages 1..n in the order they are sent to the model; the
+// model is asked to cite them as [n].
+export const toCitation = (chunk: TextChunk, index: number): Citation => ({
+  label: index + 1,
+  chunkId: chunk.id,
+  documentId: chunk.documentId,
+  pageNumber: chunk.pageNumber,
+  start: chunk.start,
+  end: chunk.end,
+});
+
+// Returns the citations actually referenced by `text`, in order of first use.
+export const extractCitations = (text: string, sources: Citation[]): Citation[] => {
+  const byLabel = new Map(sources.map((source) => [source.label, source]));
+  const cited = new Map<number, Citation>();
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const citation = byLabel.get(Number(match[1]));
+    if (citation) cited.set(citation.label, citation);
+  }
+
+  return [...cited.values()];
+};
+
+export type CitationSegment = { type: 'text'; text: string } | { type: 'citation'; label: number };
+
+// Splits message text around [n] markers so they can be rendered as chips.
+export const splitCitationMarkers = (text: string): CitationSegment[] => {
+  const segments: CitationSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: 'citation', label: Number(match[1]) });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+  return segments;
+};
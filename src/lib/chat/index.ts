@@ -0,0 +1,60 @@
+import { ChatProvider, ChatProviderConfig, ChatProviderId, ChatSettings } from '../../types';
+import { createOpenAIProvider, EndpointUnreachableError } from './openaiProvider';
+import { createMockProvider } from './mockProvider';
+
+export const PROVIDER_IDS = ['openai', 'mock'] as const satisfies readonly ChatProviderId[];
+
+const API_KEY_STORAGE_KEY = 'chat-pdf-flow:chat-api-key';
+
+// Combines the workspace's chat settings and the session's API key with the
+// defaults from the Vite environment (VITE_CHAT_PROVIDER, VITE_CHAT_ENDPOINT,
+// VITE_CHAT_MODEL, VITE_CHAT_API_KEY).
+export const getChatConfig = (settings: ChatSettings = {}, apiKey = ''): ChatProviderConfig => {
+  const env = import.meta.env;
+  const provider = PROVIDER_IDS.find((id) => id === (settings.provider ?? env.VITE_CHAT_PROVIDER)) ?? 'mock';
+
+  return {
+    provider,
+    endpoint: settings.endpoint || env.VITE_CHAT_ENDPOINT || 'https://api.openai.com/v1',
+    model: settings.model || env.VITE_CHAT_MODEL || 'gpt-4o-mini',
+    apiKey: apiKey || env.VITE_CHAT_API_KEY || undefined,
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens,
+    systemPrompt: settings.systemPrompt || undefined,
+  };
+};
+
+// The API key lives only as long as the browser tab, so it is never written
+// to IndexedDB with the rest of the workspace.
+export const loadSessionApiKey = () => {
+  try {
+    return sessionStorage.getItem(API_KEY_STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveSessionApiKey = (apiKey: string) => {
+  try {
+    if (apiKey) sessionStorage.setItem(API_KEY_STORAGE_KEY, apiKey);
+    else sessionStorage.removeItem(API_KEY_STORAGE_KEY);
+  } catch (error) {
+    console.error('Failed to store the API key:', error);
+  }
+};
+
+export const createChatProvider = (config: ChatProviderConfig): ChatProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider(config);
+    case 'mock':
+    default:
+      return createMockProvider();
+  }
+};
+
+// Only the provider's own request failing counts, so bugs elsewhere still
+// surface as errors. While the browser is offline, a network error part way
+// through the response (a TypeError from reading the body) counts as well.
+export const isUnreachableError = (error: unknown) =>
+  error instanceof EndpointUnreachableError || (!navigator.onLine && error instanceof TypeError);
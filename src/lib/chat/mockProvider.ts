@@ -0,0 +1,41 @@
+import { ChatProvider } from '../../types';
+
+const TOKEN_DELAY_MS = 30;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Deterministic stand-in used for local development and tests: the reply is
+// derived only from the request, so the same conversation always yields the
+// same answer. It is streamed word by word to exercise the streaming UI.
+export const createMockProvider = (): ChatProvider => ({
+  id: 'mock',
+
+  stream: async function* ({ documents, messages, context, signal }) {
+    const question = [...messages].reverse().find((message) => message.role === 'user');
+    // Cite every passage so the citation UI can be exercised without a model
+    const sources = context.map((passage, index) => `[${index + 1}]`).join('') || '(no sources)';
+    const quoted = question?.quote ? ` (quoting page ${question.quote.pageNumber})` : '';
+    const names = documents.map((document) => `"${document.name}"`).join(', ');
+    const reply = `[mock] You asked about ${names}${quoted}: ${question?.text ?? ''} ${sources}`;
+
+    for (const token of reply.split(/(?<=\s)/)) {
+      await wait(TOKEN_DELAY_MS, signal);
+      yield token;
+    }
+  },
+});
@@ -0,0 +1,104 @@
+import { ChatMessage, ChatProvider, ChatProviderConfig, ChatRequest, PDFDocument } from '../../types';
+import { readServerSentEvents } from './sse';
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// In multi-document chats, passages are labelled with their document as well
+// as their page.
+const describeLocation = (documents: PDFDocument[], documentId: string | undefined, pageNumber: number) => {
+  const document = documents.length > 1 ? documents.find((candidate) => candidate.id === documentId) : undefined;
+  return document ? `"${document.name}", page ${pageNumber}` : `page ${pageNumber}`;
+};
+
+const toOpenAIMessage = (message: ChatMessage, documents: PDFDocument[]): OpenAIMessage => ({
+  role: message.role === 'ai' ? 'assistant' : 'user',
+  content: message.quote
+    ? `Regarding this passage from ${describeLocation(documents, message.quote.documentId, message.quote.pageNumber)}:\n"""\n${message.quote.text}\n"""\n\n${message.text}`
+    : message.text,
+});
+
+const buildDocumentPrompt = ({ documents, context, currentPage }: ChatRequest) => {
+  const reading = currentPage ? ` The user is currently reading page ${currentPage}.` : '';
+  const names = documents.map((document) => `"${document.name}"`).join(', ');
+  const intro =
+    documents.length > 1
+      ? `You are a helpful assistant answering questions across the PDF documents ${names}. ` +
+        'Say which document each statement comes from, and point out where the documents differ.'
+      : `You are a helpful assistant answering questions about the PDF document ${names}.${reading}`;
+  if (context.length === 0) {
+    const source = documents.length > 1 ? 'documents' : 'document';
+    return `${intro} No relevant excerpts from the ${source} were found, so say so if a question depends on its contents.`;
+  }
+
+  const excerpts = context
+    .map((passage, index) => `[${index + 1}] (${describeLocation(documents, passage.documentId, passage.pageNumber)})\n${passage.text}`)
+    .join('\n\n');
+  return (
+    `${intro} Answer using the numbered document excerpts below, which were retrieved as the most relevant ` +
+    'to the question. Cite the excerpts that support each claim with their number in square brackets, ' +
+    `e.g. [1] or [2][3]. If the excerpts do not contain the answer, say so.\n\n${excerpts}`
+  );
+};
+
+// Custom instructions come first; the document instructions and excerpts
+// always follow so citations keep working.
+const buildSystemPrompt = (request: ChatRequest, customPrompt?: string) =>
+  customPrompt ? `${customPrompt.trim()}\n\n${buildDocumentPrompt(request)}` : buildDocumentPrompt(request);
+
+export const buildOpenAIMessages = (request: ChatRequest, customPrompt?: string): OpenAIMessage[] => [
+  { role: 'system', content: buildSystemPrompt(request, customPrompt) },
+  ...request.messages.map((message) => toOpenAIMessage(message, request.documents)),
+];
+
+// The request got no response at all: no network, DNS failure, refused
+// connection or CORS, as opposed to the server answering with an error status.
+export class EndpointUnreachableError extends Error {
+  constructor(readonly reason: unknown) {
+    super('The chat endpoint could not be reached');
+    this.name = 'EndpointUnreachableError';
+  }
+}
+
+// Talks to any server implementing the OpenAI `/chat/completions` API
+// (OpenAI itself, vLLM, llama.cpp server, Ollama, LM Studio, ...).
+export const createOpenAIProvider = (config: ChatProviderConfig): ChatProvider => ({
+  id: 'openai',
+
+  stream: async function* (request) {
+    const response = await fetch(`${config.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: buildOpenAIMessages(request, config.systemPrompt),
+        stream: true,
+        ...(config.temperature !== undefined ? { temperature: config.temperature } : {}),
+        ...(config.maxTokens !== undefined ? { max_tokens: config.maxTokens } : {}),
+      }),
+      signal: request.signal,
+    }).catch((error: unknown) => {
+      // fetch rejects with a TypeError only when the request could not be sent
+      throw error instanceof TypeError ? new EndpointUnreachableError(error) : error;
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Chat request failed with status ${response.status}`);
+    }
+
+    for await (const data of readServerSentEvents(response.body)) {
+      if (data === '[DONE]') return;
+
+      const chunk = JSON.parse(data);
+      const token = chunk?.choices?.[0]?.delta?.content;
+      if (typeof token === 'string' && token.length > 0) {
+        yield token;
+      }
+    }
+  },
+});
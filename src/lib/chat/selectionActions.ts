@@ -0,0 +1,18 @@
+import { SelectionActionId } from '../../types';
+
+const targetLanguage = () => {
+  try {
+    const code = navigator.language.split('-')[0];
+    return new Intl.DisplayNames([navigator.language], { type: 'language' }).of(code) ?? 'English';
+  } catch {
+    return 'English';
+  }
+};
+
+// Question sent for each quick action on selected PDF text. `ask` has no
+// canned question: the user types one about the quoted selection.
+export const SELECTION_ACTION_PROMPTS: Record<Exclude<SelectionActionId, 'ask'>, () => string> = {
+  explain: () => 'Explain this passage in plain language.',
+  summarize: () => 'Summarize this passage.',
+  translate: () => `Translate this passage into ${targetLanguage()}.`,
+};
@@ -0,0 +1,36 @@
+// Minimal Server-Sent Events reader for fetch() response bodies. Yields the
+// `data:` payload of each event; multi-line data fields are joined with "\n".
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length > 0) {
+            yield data.join('\n');
+            data = [];
+          }
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+
+      if (done) {
+        if (data.length > 0) yield data.join('\n');
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,89 @@
+export type DiffOp = 'equal' | 'removed' | 'added';
+
+export interface DiffEntry {
+  op: DiffOp;
+  // Index into the old sequence for 'equal' and 'removed', the new one for 'added'
+  index: number;
+}
+
+// Above this many LCS table cells the differing middle is reported as
+// replaced wholesale rather than aligned item by item.
+const MAX_LCS_CELLS = 4_000_000;
+
+// Longest-common-subsequence diff of two sequences of comparison keys.
+// Common leading and trailing runs are matched first, so typical revisions
+// only pay for the part that actually changed.
+export const diffSequences = (before: string[], after: string[], maxCells = MAX_LCS_CELLS): DiffEntry[] => {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const entries: DiffEntry[] = [];
+  for (let i = 0; i < prefix; i++) entries.push({ op: 'equal', index: i });
+
+  const n = before.length - prefix - suffix;
+  const m = after.length - prefix - suffix;
+  if (n * m > maxCells) {
+    for (let i = 0; i < n; i++) entries.push({ op: 'removed', index: prefix + i });
+    for (let j = 0; j < m; j++) entries.push({ op: 'added', index: prefix + j });
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of before[i..] and after[j..] within the middle
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] =
+          before[prefix + i] === after[prefix + j]
+            ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && before[prefix + i] === after[prefix + j]) {
+        entries.push({ op: 'equal', index: prefix + i });
+        i++;
+        j++;
+      } else if (i < n && (j === m || lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+        // Removals are listed before the additions replacing them
+        entries.push({ op: 'removed', index: prefix + i });
+        i++;
+      } else {
+        entries.push({ op: 'added', index: prefix + j });
+        j++;
+      }
+    }
+  }
+
+  for (let i = before.length - suffix; i < before.length; i++) entries.push({ op: 'equal', index: i });
+  return entries;
+};
+
+export interface WordSegment {
+  op: DiffOp;
+  text: string;
+}
+
+// Word-level diff for showing what changed inside a paragraph. Consecutive
+// words with the same op are merged into one segment.
+export const diffWords = (before: string, after: string): WordSegment[] => {
+  const beforeWords = before.split(/\s+/).filter(Boolean);
+  const afterWords = after.split(/\s+/).filter(Boolean);
+  const segments: WordSegment[] = [];
+
+  for (const { op, index } of diffSequences(beforeWords, afterWords)) {
+    const word = op === 'added' ? afterWords[index] : beforeWords[index];
+    const last = segments[segments.length - 1];
+    if (last?.op === op) last.text += ` ${word}`;
+    else segments.push({ op, text: word });
+  }
+  return segments;
+};
@@ -0,0 +1,179 @@
+import { PageText, TextChunk } from '../../types';
+import { createBM25Index } from '../retrieval/bm25';
+import { tokenize } from '../retrieval/tokenize';
+import { diffSequences, diffWords, WordSegment } from './diff';
+
+export type { WordSegment } from './diff';
+
+// A block of a page's text; start/end index into PageText.text.
+export interface Paragraph {
+  documentId: string;
+  pageNumber: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export type ParagraphChangeKind = 'added' | 'removed' | 'changed';
+
+// One difference between the two documents. `before` is the paragraph in the
+// original, `after` the one in the revision.
+export interface ParagraphChange {
+  id: string;
+  kind: ParagraphChangeKind;
+  before?: Paragraph;
+  after?: Paragraph;
+  // Word-level differences, for 'changed' paragraphs only
+  words?: WordSegment[];
+}
+
+// A vertical gap this many times the previous line's height starts a paragraph
+const PARAGRAPH_GAP_FACTOR = 1.8;
+
+// Paired removed/added paragraphs sharing at least this share of their words
+// are reported as one changed paragraph
+const CHANGED_SIMILARITY = 0.5;
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Splits every page into paragraphs, using blank lines and vertical gaps
+// between text lines. Paragraphs never span pages.
+export const splitParagraphs = (documentId: string, pages: PageText[]): Paragraph[] => {
+  const paragraphs: Paragraph[] = [];
+
+  for (const page of pages) {
+    let current: Paragraph | null = null;
+    let previousLine: { top: number; height: number } | null = null;
+    let lineStart = 0;
+
+    const closeParagraph = () => {
+      if (current) paragraphs.push({ ...current, text: normalize(current.text) });
+      current = null;
+    };
+
+    for (const line of page.text.split('\n')) {
+      const start = lineStart;
+      const end = start + line.length;
+      lineStart = end + 1;
+
+      if (!line.trim()) {
+        closeParagraph();
+        previousLine = null;
+        continue;
+      }
+
+      const items = page.items.filter((item) => item.start >= start && item.start < end && item.height > 0);
+      const position = items.length > 0
+        ? { top: Math.min(...items.map((item) => item.top)), height: Math.max(...items.map((item) => item.height)) }
+        : null;
+      if (previousLine && position && position.top - previousLine.top > previousLine.height * PARAGRAPH_GAP_FACTOR) {
+        closeParagraph();
+      }
+      previousLine = position ?? previousLine;
+
+      if (current) {
+        current.end = end;
+        current.text += ` ${line}`;
+      } else {
+        current = { documentId, pageNumber: page.pageNumber, start, end, text: line };
+      }
+    }
+    closeParagraph();
+  }
+
+  return paragraphs;
+};
+
+// Dice coefficient over the paragraphs' word sets
+const similarity = (a: string, b: string) => {
+  const wordsA = new Set(tokenize(a));
+  const wordsB = new Set(tokenize(b));
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) shared++;
+  });
+  return (2 * shared) / (wordsA.size + wordsB.size);
+};
+
+// Turns one run of removed and added paragraphs into changes, pairing up
+// removed paragraphs with similar added ones in order.
+const pairRun = (removed: Paragraph[], added: Paragraph[], changes: ParagraphChange[]) => {
+  const push = (change: Omit<ParagraphChange, 'id'>) => changes.push({ id: `change-${changes.length}`, ...change });
+  let next = 0;
+
+  for (const before of removed) {
+    let best = -1;
+    let bestScore = CHANGED_SIMILARITY;
+    for (let j = next; j < added.length; j++) {
+      const score = similarity(before.text, added[j].text);
+      if (score >= bestScore) {
+        best = j;
+        bestScore = score;
+      }
+    }
+
+    if (best === -1) {
+      push({ kind: 'removed', before });
+      continue;
+    }
+    for (; next < best; next++) push({ kind: 'added', after: added[next] });
+    push({ kind: 'changed', before, after: added[best], words: diffWords(before.text, added[best].text) });
+    next = best + 1;
+  }
+  for (; next < added.length; next++) push({ kind: 'added', after: added[next] });
+};
+
+// Paragraph-level diff of two documents' extracted text, in reading order.
+// Paragraphs are compared ignoring case and whitespace.
+export const diffDocuments = (before: Paragraph[], after: Paragraph[]): ParagraphChange[] => {
+  const key = (paragraph: Paragraph) => paragraph.text.toLowerCase();
+  const changes: ParagraphChange[] = [];
+  let removed: Paragraph[] = [];
+  let added: Paragraph[] = [];
+
+  const flush = () => {
+    if (removed.length > 0 || added.length > 0) pairRun(removed, added, changes);
+    removed = [];
+    added = [];
+  };
+
+  for (const { op, index } of diffSequences(before.map(key), after.map(key))) {
+    if (op === 'equal') flush();
+    else if (op === 'removed') removed.push(before[index]);
+    else added.push(after[index]);
+  }
+  flush();
+
+  return changes;
+};
+
+const toChunk = (paragraph: Paragraph): TextChunk => ({
+  id: `${paragraph.documentId}:${paragraph.pageNumber}:${paragraph.start}`,
+  documentId: paragraph.documentId,
+  pageNumber: paragraph.pageNumber,
+  start: paragraph.start,
+  end: paragraph.end,
+  text: paragraph.text,
+});
+
+const changeChunks = (change: ParagraphChange) =>
+  [change.before, change.after].filter((paragraph): paragraph is Paragraph => Boolean(paragraph)).map(toChunk);
+
+// Passages for a question about the differences: both sides of the `k`
+// changes most relevant to the question, topped up with the first changes in
+// the document when the question matches few of them (e.g. "what changed?").
+export const selectChangeContext = (changes: ParagraphChange[], query: string, k: number): TextChunk[] => {
+  const searchable: TextChunk[] = changes.map((change, index) => ({
+    id: String(index),
+    documentId: '',
+    pageNumber: 0,
+    start: 0,
+    end: 0,
+    text: changeChunks(change).map((chunk) => chunk.text).join('\n'),
+  }));
+  const picked = new Set(createBM25Index(searchable).search(query, k).map(({ chunk }) => Number(chunk.id)));
+  for (let index = 0; index < changes.length && picked.size < k; index++) picked.add(index);
+
+  return [...picked].sort((a, b) => a - b).flatMap((index) => changeChunks(changes[index]));
+};
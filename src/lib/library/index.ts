@@ -0,0 +1,75 @@
+import { LibrarySort, PDFDocument } from '../../types';
+
+export const LIBRARY_SORT_LABELS: Record<LibrarySort, string> = {
+  name: 'Name',
+  added: 'Date added',
+  opened: 'Last opened',
+  manual: 'Custom order',
+};
+
+const nameCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const compareBy: Record<LibrarySort, (a: PDFDocument, b: PDFDocument) => number> = {
+  name: (a, b) => nameCollator.compare(a.name, b.name),
+  // Newest first
+  added: (a, b) => b.addedAt.getTime() - a.addedAt.getTime(),
+  // Documents never opened go last
+  opened: (a, b) => (b.lastOpenedAt?.getTime() ?? 0) - (a.lastOpenedAt?.getTime() ?? 0),
+  // The sort is stable, so this keeps the order of the documents array
+  manual: () => 0,
+};
+
+// Pinned documents first, each group ordered by `sort`.
+export const sortDocuments = (documents: PDFDocument[], sort: LibrarySort): PDFDocument[] =>
+  [...documents].sort((a, b) => Number(Boolean(b.pinned)) - Number(Boolean(a.pinned)) || compareBy[sort](a, b));
+
+// Trims each segment and drops empty ones: ' a//b/ ' -> 'a/b'
+export const normalizeFolderPath = (path: string) =>
+  path
+    .split('/')
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+    .join('/');
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const parentFolder = (path: string) => path.split('/').slice(0, -1).join('/');
+
+export const folderName = (path: string) => path.split('/').pop() ?? path;
+
+// Whether `path` is `folder` itself or somewhere below it
+export const isInFolder = (path: string, folder: string) => path === folder || path.startsWith(`${folder}/`);
+
+export interface FolderNode {
+  path: string;
+  name: string;
+  folders: FolderNode[];
+  documents: PDFDocument[];
+}
+
+// Nests documents under their folders. Folders come from explicitly created
+// paths and from document paths; every ancestor of either gets a node too.
+export const buildFolderTree = (folders: string[], documents: PDFDocument[], sort: LibrarySort): FolderNode => {
+  const root: FolderNode = { path: '', name: '', folders: [], documents: [] };
+  const nodes = new Map<string, FolderNode>([['', root]]);
+
+  const ensure = (path: string): FolderNode => {
+    const existing = nodes.get(path);
+    if (existing) return existing;
+
+    const node: FolderNode = { path, name: folderName(path), folders: [], documents: [] };
+    nodes.set(path, node);
+    ensure(parentFolder(path)).folders.push(node);
+    return node;
+  };
+
+  for (const path of folders) ensure(path);
+  for (const document of sortDocuments(documents, sort)) ensure(document.folder).documents.push(document);
+
+  for (const node of nodes.values()) node.folders.sort((a, b) => nameCollator.compare(a.name, b.name));
+  return root;
+};
+
+// Every tag in use, alphabetically
+export const collectTags = (documents: PDFDocument[]) =>
+  [...new Set(documents.flatMap((document) => document.tags))].sort(nameCollator.compare);
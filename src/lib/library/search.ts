@@ -0,0 +1,96 @@
+import { DocumentText, PDFDocument, PDFMetadata } from '../../types';
+import { buildSearchPattern, findMatches } from '../pdf/search';
+
+const MAX_DOCUMENTS = 20;
+const MAX_PAGE_HITS_PER_DOCUMENT = 5;
+const SNIPPET_CONTEXT = 40;
+
+export interface TextSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface LibraryPageHit {
+  pageNumber: number;
+  start: number;
+  end: number;
+  snippet: TextSnippet;
+}
+
+export interface LibraryMetadataHit {
+  field: keyof PDFMetadata;
+  snippet: TextSnippet;
+}
+
+export interface LibrarySearchResult {
+  document: PDFDocument;
+  nameMatch: TextSnippet | null;
+  metadataHits: LibraryMetadataHit[];
+  pageHits: LibraryPageHit[];
+  // Total number of full-text matches, including ones not listed
+  pageHitCount: number;
+}
+
+const collapseWhitespace = (value: string) => value.replace(/\s+/g, ' ');
+
+const toSnippet = (text: string, start: number, end: number): TextSnippet => {
+  const from = Math.max(0, start - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, end + SNIPPET_CONTEXT);
+  return {
+    before: (from > 0 ? '…' : '') + collapseWhitespace(text.slice(from, start)).trimStart(),
+    match: collapseWhitespace(text.slice(start, end)),
+    after: collapseWhitespace(text.slice(end, to)).trimEnd() + (to < text.length ? '…' : ''),
+  };
+};
+
+const firstMatch = (text: string, pattern: RegExp): TextSnippet | null => {
+  pattern.lastIndex = 0;
+  const match = pattern.exec(text);
+  return match ? toSnippet(text, match.index, match.index + match[0].length) : null;
+};
+
+// Case-insensitive search of every document's name, PDF metadata and
+// extracted text. Documents matching in their name or metadata rank first,
+// then by number of full-text hits.
+export const searchLibrary = (
+  query: string,
+  documents: PDFDocument[],
+  documentTexts: Record<string, DocumentText>
+): LibrarySearchResult[] => {
+  const pattern = buildSearchPattern(query.trim(), { caseSensitive: false, wholeWord: false, regex: false });
+  if (!pattern) return [];
+
+  const results: LibrarySearchResult[] = [];
+  for (const document of documents) {
+    const text = documentTexts[document.id];
+    const metadataHits: LibraryMetadataHit[] = [];
+    for (const [field, value] of Object.entries(text?.metadata ?? {}) as [keyof PDFMetadata, string][]) {
+      const snippet = firstMatch(value, pattern);
+      if (snippet) metadataHits.push({ field, snippet });
+    }
+
+    const pages = text?.pages ?? [];
+    const matches = findMatches(pages, pattern);
+    const pageHits: LibraryPageHit[] = [];
+    const seenPages = new Set<number>();
+    // One hit per page keeps the list readable
+    for (const match of matches) {
+      if (seenPages.has(match.pageNumber)) continue;
+      seenPages.add(match.pageNumber);
+      const pageText = pages[match.pageNumber - 1].text;
+      pageHits.push({ ...match, snippet: toSnippet(pageText, match.start, match.end) });
+      if (pageHits.length >= MAX_PAGE_HITS_PER_DOCUMENT) break;
+    }
+
+    const nameMatch = firstMatch(document.name, pattern);
+    if (nameMatch || metadataHits.length > 0 || pageHits.length > 0) {
+      results.push({ document, nameMatch, metadataHits, pageHits, pageHitCount: matches.length });
+    }
+  }
+
+  const rank = (result: LibrarySearchResult) => (result.nameMatch || result.metadataHits.length > 0 ? 1 : 0);
+  return results
+    .sort((a, b) => rank(b) - rank(a) || b.pageHitCount - a.pageHitCount)
+    .slice(0, MAX_DOCUMENTS);
+};
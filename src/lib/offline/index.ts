@@ -0,0 +1,23 @@
+// The service worker only exists in production builds (see vite.config.ts)
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch((error) => console.error('Service worker registration failed:', error));
+  });
+};
+
+// Asks the browser not to evict the library from IndexedDB under storage
+// pressure, which would lose documents that only exist offline. Browsers
+// decide silently or prompt once, so this is only worth asking when a
+// document has actually been stored.
+export const requestPersistentStorage = async () => {
+  if (!navigator.storage?.persist || (await navigator.storage.persisted())) return;
+  try {
+    await navigator.storage.persist();
+  } catch (error) {
+    console.error('Persistent storage request failed:', error);
+  }
+};
@@ -0,0 +1,98 @@
+import { AnnotationColor, PageQuad, PageRect } from '../../types';
+
+// Size of the sticky-note icon: PDF points in exported files, CSS pixels on screen
+export const NOTE_ICON_SIZE = 20;
+
+export const ANNOTATION_COLORS: Record<AnnotationColor, string> = {
+  yellow: '#fde047',
+  green: '#86efac',
+  blue: '#93c5fd',
+  pink: '#f9a8d4',
+  orange: '#fdba74',
+};
+
+export const DEFAULT_ANNOTATION_COLOR: AnnotationColor = 'yellow';
+
+export const rectToQuad = ({ left, top, width, height }: PageRect): PageQuad => [
+  left, top,
+  left + width, top,
+  left, top + height,
+  left + width, top + height,
+];
+
+// Axis-aligned bounding box of a quad
+export const quadToRect = (quad: PageQuad): PageRect => {
+  const xs = [quad[0], quad[2], quad[4], quad[6]];
+  const ys = [quad[1], quad[3], quad[5], quad[7]];
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  return { left, top, width: Math.max(...xs) - left, height: Math.max(...ys) - top };
+};
+
+export const quadsBounds = (quads: PageQuad[]): PageRect | null => {
+  if (quads.length === 0) return null;
+  const rects = quads.map(quadToRect);
+  const left = Math.min(...rects.map((rect) => rect.left));
+  const top = Math.min(...rects.map((rect) => rect.top));
+  const right = Math.max(...rects.map((rect) => rect.left + rect.width));
+  const bottom = Math.max(...rects.map((rect) => rect.top + rect.height));
+  return { left, top, width: right - left, height: bottom - top };
+};
+
+export const quadContainsPoint = (quad: PageQuad, x: number, y: number) => {
+  const rect = quadToRect(quad);
+  return x >= rect.left && x <= rect.left + rect.width && y >= rect.top && y <= rect.top + rect.height;
+};
+
+const sameLine = (a: PageRect, b: PageRect) => {
+  const overlap = Math.min(a.top + a.height, b.top + b.height) - Math.max(a.top, b.top);
+  return overlap > Math.min(a.height, b.height) / 2;
+};
+
+// Joins the per-span rectangles of a selection into one rectangle per run of
+// adjacent text on a line.
+const mergeRects = (rects: PageRect[]): PageRect[] => {
+  const sorted = [...rects].sort((a, b) => a.top - b.top || a.left - b.left);
+  const merged: PageRect[] = [];
+
+  for (const rect of sorted) {
+    const last = merged.find(
+      (candidate) => sameLine(candidate, rect) && rect.left <= candidate.left + candidate.width + 2
+    );
+    if (!last) {
+      merged.push({ ...rect });
+      continue;
+    }
+    const right = Math.max(last.left + last.width, rect.left + rect.width);
+    const bottom = Math.max(last.top + last.height, rect.top + rect.height);
+    last.left = Math.min(last.left, rect.left);
+    last.top = Math.min(last.top, rect.top);
+    last.width = right - last.left;
+    last.height = bottom - last.top;
+  }
+
+  return merged;
+};
+
+// Quads covering a DOM selection range on a rendered page. `scale` is the
+// page's rendered width divided by its width at scale 1.
+export const getRangeQuads = (range: Range, pageElement: HTMLElement, scale: number): PageQuad[] => {
+  const pageRect = pageElement.getBoundingClientRect();
+  const rects = Array.from(range.getClientRects())
+    .filter((rect) => rect.width > 0 && rect.height > 0)
+    .map((rect) => {
+      const left = Math.max(rect.left, pageRect.left);
+      const top = Math.max(rect.top, pageRect.top);
+      const right = Math.min(rect.right, pageRect.right);
+      const bottom = Math.min(rect.bottom, pageRect.bottom);
+      return {
+        left: (left - pageRect.left) / scale,
+        top: (top - pageRect.top) / scale,
+        width: (right - left) / scale,
+        height: (bottom - top) / scale,
+      };
+    })
+    .filter((rect) => rect.width > 0 && rect.height > 0);
+
+  return mergeRects(rects).map(rectToQuad);
+};
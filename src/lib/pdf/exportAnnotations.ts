@@ -0,0 +1,111 @@
+import { PDFDocument as PDFLibDocument, PDFHexString, PDFPage, PDFString } from 'pdf-lib';
+import { Annotation, PDFDocument } from '../../types';
+import { ANNOTATION_COLORS, NOTE_ICON_SIZE, quadsBounds } from './annotations';
+
+type Point = [number, number];
+
+const hexToRgb = (hex: string): number[] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((channel) => channel / 255);
+};
+
+// Maps viewport coordinates at scale 1 (top-left origin, as produced by
+// pdf.js) back to the page's user space, undoing the crop box offset and
+// the page rotation.
+const toUserSpace = (page: PDFPage) => {
+  const { x, y, width, height } = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+
+  return ([vx, vy]: Point): Point => {
+    switch (rotation) {
+      case 90:
+        return [x + vy, y + vx];
+      case 180:
+        return [x + width - vx, y + vy];
+      case 270:
+        return [x + width - vy, y + height - vx];
+      default:
+        return [x + vx, y + height - vy];
+    }
+  };
+};
+
+const boundsOf = (points: Point[]) => {
+  const xs = points.map(([px]) => px);
+  const ys = points.map(([, py]) => py);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+};
+
+const addHighlight = (pdf: PDFLibDocument, page: PDFPage, annotation: Annotation) => {
+  const map = toUserSpace(page);
+  const quads = annotation.quads.map((quad) =>
+    [0, 2, 4, 6].map((index) => map([quad[index], quad[index + 1]]))
+  );
+  const rect = boundsOf(quads.flat());
+  const color = hexToRgb(ANNOTATION_COLORS[annotation.color]);
+
+  // Readers that do not synthesise highlight appearances need an explicit one
+  const point = ([px, py]: Point) => `${px.toFixed(2)} ${py.toFixed(2)}`;
+  const path = quads
+    .map(([tl, tr, bl, br]) => `${point(tl)} m ${point(tr)} l ${point(br)} l ${point(bl)} l h`)
+    .join(' ');
+  const appearance = pdf.context.stream(`/GS0 gs ${color.join(' ')} rg ${path} f`, {
+    Type: 'XObject',
+    Subtype: 'Form',
+    BBox: rect,
+    Resources: { ExtGState: { GS0: { Type: 'ExtGState', BM: 'Multiply' } } },
+  });
+
+  return pdf.context.obj({
+    Type: 'Annot',
+    Subtype: 'Highlight',
+    Rect: rect,
+    QuadPoints: quads.flat(2),
+    C: color,
+    F: 4,
+    P: page.ref,
+    NM: PDFString.of(annotation.id),
+    M: PDFString.fromDate(new Date(annotation.updatedAt)),
+    Contents: PDFHexString.fromText(annotation.note),
+    AP: { N: pdf.context.register(appearance) },
+  });
+};
+
+const addNote = (pdf: PDFLibDocument, page: PDFPage, annotation: Annotation) => {
+  const bounds = quadsBounds(annotation.quads);
+  const [left, top] = toUserSpace(page)(bounds ? [bounds.left + bounds.width, bounds.top] : [0, 0]);
+
+  return pdf.context.obj({
+    Type: 'Annot',
+    Subtype: 'Text',
+    Rect: [left, top - NOTE_ICON_SIZE, left + NOTE_ICON_SIZE, top],
+    Name: 'Comment',
+    Open: false,
+    C: hexToRgb(ANNOTATION_COLORS[annotation.color]),
+    F: 4,
+    P: page.ref,
+    NM: PDFString.of(annotation.id),
+    M: PDFString.fromDate(new Date(annotation.updatedAt)),
+    Contents: PDFHexString.fromText(annotation.note || annotation.text),
+  });
+};
+
+// Writes the annotations into a copy of the document's original bytes as
+// standard /Highlight and /Text annotations.
+export const exportAnnotatedPdf = async (document: PDFDocument, annotations: Annotation[]): Promise<Blob> => {
+  const pdf = await PDFLibDocument.load(await document.file.arrayBuffer());
+  const pages = pdf.getPages();
+
+  for (const annotation of annotations) {
+    const page = pages[annotation.pageNumber - 1];
+    if (!page || annotation.quads.length === 0) continue;
+
+    const dict = annotation.kind === 'note' ? addNote(pdf, page, annotation) : addHighlight(pdf, page, annotation);
+    page.node.addAnnot(pdf.context.register(dict));
+  }
+
+  const bytes = await pdf.save();
+  return new Blob([bytes], { type: 'application/pdf' });
+};
+
+export const annotatedFileName = (name: string) => `${name.replace(/\.pdf$/i, '')}-annotated.pdf`;
@@ -0,0 +1,19 @@
+import { PageRect, PageText } from '../../types';
+
+// Approximates the on-page rectangles covering characters [start, end) of a
+// page's text. Runs that are only partly covered are cut proportionally,
+// assuming evenly spaced glyphs.
+export const getTextRangeRects = (page: PageText, start: number, end: number): PageRect[] =>
+  page.items
+    .filter((item) => item.width > 0 && item.start < end && item.end > start)
+    .map((item) => {
+      const charWidth = item.width / Math.max(1, item.end - item.start);
+      const from = Math.max(start, item.start) - item.start;
+      const to = Math.min(end, item.end) - item.start;
+      return {
+        left: item.left + from * charWidth,
+        top: item.top,
+        width: (to - from) * charWidth,
+        height: item.height,
+      };
+    });
@@ -0,0 +1,36 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { OutlineNode } from '../../types';
+
+type RawOutline = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>;
+
+// Resolves an outline destination (named or explicit) to a 1-based page number.
+const resolvePageNumber = async (pdf: PDFDocumentProxy, dest: unknown): Promise<number | null> => {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || explicit.length === 0) return null;
+
+    const [target] = explicit;
+    const pageIndex = typeof target === 'number' ? target : await pdf.getPageIndex(target);
+    return pageIndex + 1;
+  } catch {
+    return null;
+  }
+};
+
+const toNodes = (pdf: PDFDocumentProxy, items: RawOutline, parentId: string): Promise<OutlineNode[]> =>
+  Promise.all(
+    (items ?? []).map(async (item, index) => {
+      const id = `${parentId}${index}`;
+      return {
+        id,
+        title: item.title,
+        pageNumber: await resolvePageNumber(pdf, item.dest),
+        children: await toNodes(pdf, item.items, `${id}.`),
+      };
+    })
+  );
+
+// Loads the document outline (bookmarks) with page numbers resolved up front,
+// so the viewer can tell which section is being read.
+export const loadOutline = async (pdf: PDFDocumentProxy): Promise<OutlineNode[]> =>
+  toNodes(pdf, await pdf.getOutline(), '');
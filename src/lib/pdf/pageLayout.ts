@@ -0,0 +1,59 @@
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+export interface PageSlot {
+  top: number;
+  height: number;
+}
+
+export interface PageRange {
+  first: number;
+  last: number;
+}
+
+// Vertical space between pages, matching the page's bottom margin
+export const PAGE_GAP = 20;
+
+// Fallback aspect ratio (A4 portrait) until a page's real size is known
+export const DEFAULT_PAGE_SIZE: PageSize = { width: 595, height: 842 };
+
+// Lays pages out top to bottom, each rendered `pageWidth` pixels wide.
+export const computePageSlots = (sizes: PageSize[], pageWidth: number): PageSlot[] => {
+  const slots: PageSlot[] = [];
+  let top = 0;
+  for (const size of sizes) {
+    const height = Math.round(pageWidth * (size.height / size.width)) + PAGE_GAP;
+    slots.push({ top, height });
+    top += height;
+  }
+  return slots;
+};
+
+// 1-based page numbers intersecting [scrollTop - overscan, scrollTop + viewportHeight + overscan].
+export const findVisiblePages = (
+  slots: PageSlot[],
+  scrollTop: number,
+  viewportHeight: number,
+  overscan: number
+): PageRange => {
+  if (slots.length === 0) return { first: 0, last: -1 };
+
+  const from = scrollTop - overscan;
+  const to = scrollTop + viewportHeight + overscan;
+
+  // First slot whose bottom edge is below `from`
+  let low = 0;
+  let high = slots.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (slots[mid].top + slots[mid].height <= from) low = mid + 1;
+    else high = mid;
+  }
+
+  let last = low;
+  while (last + 1 < slots.length && slots[last + 1].top < to) last++;
+
+  return { first: low + 1, last: last + 1 };
+};
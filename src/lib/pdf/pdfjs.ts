@@ -0,0 +1,35 @@
+import { pdfjs } from 'react-pdf';
+import bundledWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url';
+
+// The worker is bundled by Vite and the cmaps and standard fonts are copied
+// to <base>pdfjs/ by the build, so everything loads from the app's own
+// origin. Each can be pointed elsewhere through the environment.
+export const getPdfjsConfig = () => {
+  const env = import.meta.env;
+  const assetBase = `${env.BASE_URL}pdfjs/`;
+  const withTrailingSlash = (url: string) => (url.endsWith('/') ? url : `${url}/`);
+
+  return {
+    workerSrc: env.VITE_PDFJS_WORKER_URL || bundledWorkerUrl,
+    cMapUrl: withTrailingSlash(env.VITE_PDFJS_CMAP_URL || `${assetBase}cmaps/`),
+    standardFontDataUrl: withTrailingSlash(env.VITE_PDFJS_STANDARD_FONT_URL || `${assetBase}standard_fonts/`),
+  };
+};
+
+const { workerSrc, cMapUrl, standardFontDataUrl } = getPdfjsConfig();
+
+pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+// Shared by the viewer and the text extraction pipeline so both load
+// documents the same way.
+export const PDF_DOCUMENT_OPTIONS = {
+  cMapUrl,
+  cMapPacked: true,
+  standardFontDataUrl,
+  disableAutoFetch: false,
+  disableStream: false,
+  useSystemFonts: true,
+  verbosity: 0,
+};
+
+export { pdfjs };
@@ -0,0 +1,28 @@
+// The frame of the last print job. The browser's print dialog may still be
+// reading it after print() returns, so it is only removed by the next job.
+let printFrame: HTMLIFrameElement | null = null;
+
+// Prints a PDF through the browser's own PDF viewer in a hidden frame. Falls
+// back to opening it in a new tab where the frame cannot be printed.
+export const printPdf = (blob: Blob) => {
+  if (printFrame) {
+    URL.revokeObjectURL(printFrame.src);
+    printFrame.remove();
+  }
+
+  const url = URL.createObjectURL(blob);
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position: fixed; width: 0; height: 0; border: 0; visibility: hidden;';
+  frame.onload = () => {
+    try {
+      frame.contentWindow?.focus();
+      frame.contentWindow?.print();
+    } catch (error) {
+      console.error('Printing from a frame failed:', error);
+      window.open(url, '_blank');
+    }
+  };
+  frame.src = url;
+  document.body.appendChild(frame);
+  printFrame = frame;
+};
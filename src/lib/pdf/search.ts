@@ -0,0 +1,68 @@
+import { PageText, PageTextItem, SearchMatch, SearchOptions } from '../../types';
+
+const MAX_MATCHES = 10000;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// Returns null for an empty query or an invalid regular expression.
+export const buildSearchPattern = (query: string, { caseSensitive, wholeWord, regex }: SearchOptions): RegExp | null => {
+  if (!query) return null;
+
+  let source = regex ? query : escapeRegExp(query);
+  if (wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+
+  try {
+    return new RegExp(source, `gu${caseSensitive ? '' : 'i'}`);
+  } catch {
+    return null;
+  }
+};
+
+// Searches the extracted text of every page, including pages the viewer has
+// not rendered yet.
+export const findMatches = (pages: PageText[], pattern: RegExp): SearchMatch[] => {
+  const matches: SearchMatch[] = [];
+
+  for (const page of pages) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(page.text)) !== null) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      matches.push({ pageNumber: page.pageNumber, start: match.index, end: match.index + match[0].length });
+      if (matches.length >= MAX_MATCHES) return matches;
+    }
+  }
+
+  return matches;
+};
+
+// Wraps the parts of one text-layer run covered by matches in <mark> tags,
+// for react-pdf's `customTextRenderer`.
+export const renderHighlightedItem = (
+  item: PageTextItem,
+  matches: SearchMatch[],
+  activeMatch: SearchMatch | null
+): string => {
+  let html = '';
+  let cursor = item.start;
+
+  for (const match of matches) {
+    if (match.end <= item.start || match.start >= item.end) continue;
+
+    const from = Math.max(match.start, item.start);
+    const to = Math.min(match.end, item.end);
+    const className = match === activeMatch ? 'pdf-search-hit pdf-search-hit-active' : 'pdf-search-hit';
+
+    html += escapeHtml(item.str.slice(cursor - item.start, from - item.start));
+    html += `<mark class="${className}">${escapeHtml(item.str.slice(from - item.start, to - item.start))}</mark>`;
+    cursor = to;
+  }
+
+  return html + escapeHtml(item.str.slice(cursor - item.start));
+};
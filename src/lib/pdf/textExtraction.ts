@@ -0,0 +1,93 @@
+import type { PDFDocumentProxy, TextItem } from 'pdfjs-dist/types/src/display/api';
+import { PageText, PageTextItem, PDFMetadata } from '../../types';
+import { pdfjs, PDF_DOCUMENT_OPTIONS } from './pdfjs';
+
+const isTextItem = (item: object): item is TextItem => 'str' in item;
+
+// Keys of the PDF document information dictionary, which also serve as the
+// labels shown for each field
+export const METADATA_LABELS: Record<keyof PDFMetadata, string> = {
+  title: 'Title',
+  author: 'Author',
+  subject: 'Subject',
+  keywords: 'Keywords',
+};
+
+const readMetadata = async (pdf: PDFDocumentProxy): Promise<PDFMetadata> => {
+  const { info } = await pdf.getMetadata();
+  const metadata: PDFMetadata = {};
+  for (const [field, key] of Object.entries(METADATA_LABELS) as [keyof PDFMetadata, string][]) {
+    const value = (info as Record<string, unknown>)[key];
+    if (typeof value === 'string' && value.trim()) metadata[field] = value.trim();
+  }
+  return metadata;
+};
+
+const openDocument = async (file: File) =>
+  pdfjs.getDocument({ ...PDF_DOCUMENT_OPTIONS, data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+// Only the document information (title, author, ...), without reading pages.
+export const extractDocumentMetadata = async (file: File): Promise<PDFMetadata> => {
+  const pdf = await openDocument(file);
+  try {
+    return await readMetadata(pdf);
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// Reads the text of every page together with the position of each text run.
+// Positions are in viewport units at scale 1 with a top-left origin, so the
+// viewer only has to multiply them by its render scale. `itemIndex` matches
+// the index react-pdf passes to `customTextRenderer`.
+export const extractDocumentText = async (
+  file: File,
+  onProgress?: (extractedPages: number, totalPages: number) => void
+): Promise<{ pages: PageText[]; metadata: PDFMetadata }> => {
+  const pdf = await openDocument(file);
+  const pages: PageText[] = [];
+  let metadata: PDFMetadata = {};
+
+  try {
+    metadata = await readMetadata(pdf).catch(() => ({}));
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+
+      let text = '';
+      const items: PageTextItem[] = [];
+
+      content.items.forEach((item, itemIndex) => {
+        if (!isTextItem(item)) return;
+
+        const [, , , , x, y] = item.transform;
+        const [x1, y1] = viewport.convertToViewportPoint(x, y);
+        const [x2, y2] = viewport.convertToViewportPoint(x + item.width, y + item.height);
+
+        items.push({
+          itemIndex,
+          str: item.str,
+          start: text.length,
+          end: text.length + item.str.length,
+          left: Math.min(x1, x2),
+          top: Math.min(y1, y2),
+          width: Math.abs(x2 - x1),
+          height: Math.abs(y2 - y1),
+        });
+
+        text += item.str;
+        if (item.hasEOL) text += '\n';
+      });
+
+      pages.push({ pageNumber, width: viewport.width, height: viewport.height, text, items });
+      page.cleanup();
+      onProgress?.(pageNumber, pdf.numPages);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return { pages, metadata };
+};
@@ -0,0 +1,45 @@
+import { PageSize } from './pageLayout';
+
+export type ZoomMode = 'fit-width' | 'fit-page' | 'actual' | 'custom';
+
+// PDF points are 1/72 in, CSS pixels 1/96 in: "actual size" renders a page
+// at its physical size on a 96 dpi screen.
+export const CSS_UNITS = 96 / 72;
+
+export const MIN_SCALE = 0.25;
+export const MAX_SCALE = 5;
+
+export const ZOOM_PRESETS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4, 5];
+
+export const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+// Zoom factor relative to actual size for a mode, given the reference page
+// and the space available for it.
+export const resolveScale = (
+  mode: ZoomMode,
+  customScale: number,
+  page: PageSize,
+  available: { width: number; height: number }
+): number => {
+  const pageWidth = page.width * CSS_UNITS;
+  const pageHeight = page.height * CSS_UNITS;
+
+  switch (mode) {
+    case 'fit-width':
+      return clampScale(available.width / pageWidth);
+    case 'fit-page':
+      return clampScale(Math.min(available.width / pageWidth, available.height / pageHeight));
+    case 'actual':
+      return 1;
+    case 'custom':
+    default:
+      return clampScale(customScale);
+  }
+};
+
+// The next preset above (direction 1) or below (direction -1) `scale`.
+export const stepZoomPreset = (scale: number, direction: 1 | -1): number => {
+  const presets = direction === 1 ? ZOOM_PRESETS : [...ZOOM_PRESETS].reverse();
+  const next = presets.find((preset) => (direction === 1 ? preset > scale + 0.001 : preset < scale - 0.001));
+  return next ?? clampScale(scale);
+};
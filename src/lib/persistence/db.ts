@@ -0,0 +1,87 @@
+// Thin promise wrapper around the IndexedDB database backing the workspace.
+
+const DB_NAME = 'chat-pdf-flow';
+const DB_VERSION = 2;
+
+export const STORES = {
+  documents: 'documents',
+  files: 'files',
+  texts: 'texts',
+  conversations: 'conversations',
+  annotations: 'annotations',
+  workspace: 'workspace',
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Every store is keyed by PDFDocument.id (or a fixed key for workspace)
+        for (const name of Object.values(STORES)) {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return databasePromise;
+};
+
+export const getAllEntries = async <T>(storeName: StoreName): Promise<Map<string, T>> => {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  const [keys, values] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise(store.getAll()),
+  ]);
+  return new Map(keys.map((key, index) => [String(key), values[index] as T]));
+};
+
+export const getEntry = async <T>(storeName: StoreName, key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+};
+
+export interface StoreWrite {
+  storeName: StoreName;
+  key: string;
+  // `undefined` deletes the entry
+  value: unknown;
+}
+
+// Applies all writes in a single transaction.
+export const writeEntries = async (writes: StoreWrite[]) => {
+  if (writes.length === 0) return;
+
+  const db = await openDatabase();
+  const storeNames = [...new Set(writes.map((write) => write.storeName))];
+  const transaction = db.transaction(storeNames, 'readwrite');
+
+  for (const { storeName, key, value } of writes) {
+    const store = transaction.objectStore(storeName);
+    if (value === undefined) store.delete(key);
+    else store.put(value, key);
+  }
+
+  await transactionDone(transaction);
+};
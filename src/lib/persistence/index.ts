@@ -0,0 +1,248 @@
+import {
+  Annotation,
+  AppState,
+  ChatSettings,
+  DocumentConversation,
+  DocumentText,
+  LibrarySort,
+  PDFDocument,
+  WorkspaceSnapshot,
+} from '../../types';
+import { LIBRARY_CONVERSATION_ID, useStore } from '../../store/useStore';
+import { requestPersistentStorage } from '../offline';
+import { getAllEntries, getEntry, STORES, StoreName, StoreWrite, writeEntries } from './db';
+
+// Documents stored by earlier versions lack the library fields
+type StoredDocument = Omit<PDFDocument, 'file' | 'url' | 'addedAt' | 'folder' | 'tags'> &
+  Partial<Pick<PDFDocument, 'addedAt' | 'folder' | 'tags'>>;
+
+interface StoredFile {
+  bytes: ArrayBuffer;
+  type: string;
+  lastModified: number;
+}
+
+interface StoredWorkspace {
+  documentOrder: string[];
+  currentDocumentId: string | null;
+  librarySort?: LibrarySort;
+  folders?: string[];
+  chatSettings?: ChatSettings;
+}
+
+const WORKSPACE_KEY = 'workspace';
+const WRITE_DELAY_MS = 500;
+
+const toStoredDocument = ({ file, url, ...metadata }: PDFDocument): StoredDocument => metadata;
+
+const toStoredFile = async (file: File): Promise<StoredFile> => ({
+  bytes: await file.arrayBuffer(),
+  type: file.type,
+  lastModified: file.lastModified,
+});
+
+// Object URLs do not survive a reload, so they are recreated from the bytes.
+const fromStored = (metadata: StoredDocument, stored: StoredFile): PDFDocument => {
+  const file = new File([stored.bytes], metadata.name, {
+    type: stored.type || 'application/pdf',
+    lastModified: stored.lastModified,
+  });
+  return {
+    ...metadata,
+    addedAt: metadata.addedAt ?? new Date(stored.lastModified),
+    folder: metadata.folder ?? '',
+    tags: metadata.tags ?? [],
+    file,
+    url: URL.createObjectURL(file),
+  };
+};
+
+// A reply that was streaming when the tab closed can never finish.
+const settleConversation = (conversation: DocumentConversation): DocumentConversation => ({
+  ...conversation,
+  threads: conversation.threads.map((thread) => ({
+    ...thread,
+    messages: thread.messages.map((message) =>
+      message.status === 'streaming' ? { ...message, status: 'stopped' } : message
+    ),
+  })),
+});
+
+export const loadWorkspace = async (): Promise<WorkspaceSnapshot> => {
+  const [documents, files, texts, conversations, annotations, workspace] = await Promise.all([
+    getAllEntries<StoredDocument>(STORES.documents),
+    getAllEntries<StoredFile>(STORES.files),
+    getAllEntries<DocumentText>(STORES.texts),
+    getAllEntries<DocumentConversation>(STORES.conversations),
+    getAllEntries<Annotation[]>(STORES.annotations),
+    getEntry<StoredWorkspace>(STORES.workspace, WORKSPACE_KEY),
+  ]);
+
+  const order = workspace?.documentOrder ?? [];
+  const ids = [...documents.keys()].sort((a, b) => {
+    const rank = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+    return rank(a) - rank(b);
+  });
+
+  const snapshot: WorkspaceSnapshot = {
+    documents: [],
+    documentTexts: {},
+    conversations: {},
+    annotations: {},
+    currentDocumentId: workspace?.currentDocumentId ?? null,
+    librarySort: workspace?.librarySort ?? 'added',
+    folders: workspace?.folders ?? [],
+    chatSettings: workspace?.chatSettings ?? {},
+  };
+
+  for (const id of ids) {
+    const file = files.get(id);
+    if (!file) continue;
+
+    snapshot.documents.push(fromStored(documents.get(id), file));
+    const text = texts.get(id);
+    if (text) snapshot.documentTexts[id] = text;
+    const conversation = conversations.get(id);
+    if (conversation) snapshot.conversations[id] = settleConversation(conversation);
+    const documentAnnotations = annotations.get(id);
+    if (documentAnnotations) snapshot.annotations[id] = documentAnnotations;
+  }
+
+  const libraryConversation = conversations.get(LIBRARY_CONVERSATION_ID);
+  if (libraryConversation) {
+    snapshot.conversations[LIBRARY_CONVERSATION_ID] = settleConversation(libraryConversation);
+  }
+
+  return snapshot;
+};
+
+// Emits a put for every key whose value changed by reference, and a delete
+// for every key that disappeared.
+const diffRecords = <T>(
+  storeName: StoreName,
+  previous: Record<string, T>,
+  next: Record<string, T>,
+  toValue: (value: T) => unknown = (value) => value
+): StoreWrite[] => {
+  const writes: StoreWrite[] = [];
+  for (const [key, value] of Object.entries(next)) {
+    if (previous[key] !== value) writes.push({ storeName, key, value: toValue(value) });
+  }
+  for (const key of Object.keys(previous)) {
+    if (!(key in next)) writes.push({ storeName, key, value: undefined });
+  }
+  return writes;
+};
+
+const byId = (documents: PDFDocument[]) =>
+  Object.fromEntries(documents.map((document) => [document.id, document]));
+
+// In-progress extraction results are not worth persisting
+const settledTexts = (texts: AppState['documentTexts']) =>
+  Object.fromEntries(Object.entries(texts).filter(([, text]) => text.status !== 'extracting'));
+
+const collectWrites = async (previous: AppState, next: AppState): Promise<StoreWrite[]> => {
+  const previousDocuments = byId(previous.documents);
+  const nextDocuments = byId(next.documents);
+
+  const changedFiles = next.documents.filter((document) => previousDocuments[document.id]?.file !== document.file);
+  const fileWrites = await Promise.all(
+    changedFiles.map(async (document) => ({
+      storeName: STORES.files,
+      key: document.id,
+      value: await toStoredFile(document.file),
+    }))
+  );
+  const removedFiles = Object.keys(previousDocuments)
+    .filter((id) => !(id in nextDocuments))
+    .map((id) => ({ storeName: STORES.files, key: id, value: undefined }));
+
+  const writes = [
+    ...fileWrites,
+    ...removedFiles,
+    ...diffRecords(STORES.documents, previousDocuments, nextDocuments, toStoredDocument),
+    ...diffRecords(STORES.texts, settledTexts(previous.documentTexts), settledTexts(next.documentTexts)),
+    ...diffRecords(STORES.conversations, previous.conversations, next.conversations),
+    ...diffRecords(STORES.annotations, previous.annotations, next.annotations),
+  ];
+
+  if (
+    previous.documents !== next.documents ||
+    previous.currentDocument?.id !== next.currentDocument?.id ||
+    previous.librarySort !== next.librarySort ||
+    previous.folders !== next.folders ||
+    previous.chatSettings !== next.chatSettings
+  ) {
+    const workspace: StoredWorkspace = {
+      documentOrder: next.documents.map((document) => document.id),
+      currentDocumentId: next.currentDocument?.id ?? null,
+      librarySort: next.librarySort,
+      folders: next.folders,
+      chatSettings: next.chatSettings,
+    };
+    writes.push({ storeName: STORES.workspace, key: WORKSPACE_KEY, value: workspace });
+  }
+
+  return writes;
+};
+
+// The state IndexedDB holds once `snapshot` is loaded. Comparing against it
+// rather than the hydrated store writes whatever the store gained while the
+// workspace was loading, such as documents uploaded in the meantime.
+const toPersistedState = (state: AppState, snapshot: WorkspaceSnapshot | null): AppState => ({
+  ...state,
+  documents: snapshot?.documents ?? [],
+  currentDocument: snapshot?.documents.find((document) => document.id === snapshot.currentDocumentId) ?? null,
+  documentTexts: snapshot?.documentTexts ?? {},
+  conversations: snapshot?.conversations ?? {},
+  annotations: snapshot?.annotations ?? {},
+  librarySort: snapshot?.librarySort ?? state.librarySort,
+  folders: snapshot?.folders ?? [],
+  chatSettings: snapshot?.chatSettings ?? state.chatSettings,
+});
+
+// Mirrors store changes into IndexedDB, batching bursts (e.g. streamed
+// tokens) into one transaction every WRITE_DELAY_MS.
+const startPersistence = (snapshot: WorkspaceSnapshot | null) => {
+  let persisted = toPersistedState(useStore.getState(), snapshot);
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let queue = Promise.resolve();
+  let hasStoredFile = false;
+
+  const flush = () => {
+    timer = null;
+    queue = queue.then(async () => {
+      const next = useStore.getState();
+      try {
+        const writes = await collectWrites(persisted, next);
+        await writeEntries(writes);
+        persisted = next;
+
+        // Documents kept for offline reading should not be evicted
+        if (!hasStoredFile && writes.some((write) => write.storeName === STORES.files && write.value)) {
+          hasStoredFile = true;
+          requestPersistentStorage();
+        }
+      } catch (error) {
+        console.error('Failed to persist workspace:', error);
+      }
+    });
+  };
+
+  useStore.subscribe(() => {
+    if (!timer) timer = setTimeout(flush, WRITE_DELAY_MS);
+  });
+  timer = setTimeout(flush, WRITE_DELAY_MS);
+};
+
+// Restores the last workspace into the store, then keeps IndexedDB in sync.
+export const initPersistence = async () => {
+  let snapshot: WorkspaceSnapshot | null = null;
+  try {
+    snapshot = await loadWorkspace();
+  } catch (error) {
+    console.error('Failed to restore workspace:', error);
+  }
+  useStore.getState().hydrate(snapshot);
+  startPersistence(snapshot);
+};
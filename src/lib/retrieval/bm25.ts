@@ -0,0 +1,53 @@
+import { ScoredChunk, TextChunk } from '../../types';
+import { tokenize } from './tokenize';
+
+const K1 = 1.2;
+const B = 0.75;
+
+export interface BM25Index {
+  search: (query: string, k: number) => ScoredChunk[];
+}
+
+// Okapi BM25 over an in-memory inverted index.
+export const createBM25Index = (chunks: TextChunk[]): BM25Index => {
+  const postings = new Map<string, Map<number, number>>();
+  const lengths: number[] = [];
+
+  chunks.forEach((chunk, chunkIndex) => {
+    const tokens = tokenize(chunk.text);
+    lengths.push(tokens.length);
+    for (const token of tokens) {
+      let posting = postings.get(token);
+      if (!posting) {
+        posting = new Map();
+        postings.set(token, posting);
+      }
+      posting.set(chunkIndex, (posting.get(chunkIndex) ?? 0) + 1);
+    }
+  });
+
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / Math.max(1, lengths.length);
+
+  return {
+    search: (query, k) => {
+      const scores = new Map<number, number>();
+
+      for (const token of new Set(tokenize(query))) {
+        const posting = postings.get(token);
+        if (!posting) continue;
+
+        const idf = Math.log(1 + (chunks.length - posting.size + 0.5) / (posting.size + 0.5));
+        posting.forEach((frequency, chunkIndex) => {
+          const norm = K1 * (1 - B + (B * lengths[chunkIndex]) / averageLength);
+          const score = idf * ((frequency * (K1 + 1)) / (frequency + norm));
+          scores.set(chunkIndex, (scores.get(chunkIndex) ?? 0) + score);
+        });
+      }
+
+      return [...scores.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, k)
+        .map(([chunkIndex, score]) => ({ chunk: chunks[chunkIndex], score }));
+    },
+  };
+};
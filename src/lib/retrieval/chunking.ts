@@ -0,0 +1,62 @@
+import { PageText, TextChunk } from '../../types';
+
+export interface ChunkOptions {
+  chunkSize?: number;
+  overlap?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 800;
+const DEFAULT_OVERLAP = 200;
+
+// Last whitespace position in (from, to], or -1.
+const lastBreak = (text: string, from: number, to: number) => {
+  for (let i = to; i > from; i--) {
+    if (/\s/.test(text[i])) return i;
+  }
+  return -1;
+};
+
+// Splits every page into overlapping windows of roughly `chunkSize`
+// characters, preferring to cut at whitespace. Chunks never span pages, so
+// each one can be cited by a single page number and character range.
+export const chunkPages = (
+  documentId: string,
+  pages: PageText[],
+  { chunkSize = DEFAULT_CHUNK_SIZE, overlap = DEFAULT_OVERLAP }: ChunkOptions = {}
+): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+  for (const page of pages) {
+    const { text } = page;
+    let start = 0;
+    let index = 0;
+
+    while (start < text.length) {
+      let end = Math.min(start + chunkSize, text.length);
+      if (end < text.length) {
+        const breakAt = lastBreak(text, start + chunkSize / 2, end);
+        if (breakAt !== -1) end = breakAt;
+      }
+
+      const chunkText = text.slice(start, end);
+      if (chunkText.trim()) {
+        chunks.push({
+          id: `${documentId}:${page.pageNumber}:${index++}`,
+          documentId,
+          pageNumber: page.pageNumber,
+          start,
+          end,
+          text: chunkText,
+        });
+      }
+
+      if (end >= text.length) break;
+
+      // Start the next window `overlap` characters back, on a word boundary
+      const target = Math.max(start + 1, end - overlap);
+      const breakAt = lastBreak(text, start, target);
+      start = breakAt === -1 ? target : breakAt + 1;
+    }
+  }
+
+  return chunks;
+};
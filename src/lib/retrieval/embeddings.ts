@@ -0,0 +1,77 @@
+import { ScoredChunk, TextChunk } from '../../types';
+import { tokenize } from './tokenize';
+
+// Anything that can turn text into fixed-size vectors locally, e.g. the
+// hashing embedder below or a transformers.js model.
+export interface Embedder {
+  dimensions: number;
+  embed: (texts: string[]) => Promise<Float32Array[]>;
+}
+
+export interface VectorIndex {
+  search: (query: string, k: number) => Promise<ScoredChunk[]>;
+}
+
+// 32-bit FNV-1a
+const hash = (value: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const normalize = (vector: Float32Array) => {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+};
+
+// Dependency-free embedder using the hashing trick over words and character
+// trigrams. Much weaker than a learned model, but it catches morphological
+// variants that exact BM25 term matching misses.
+export const createHashingEmbedder = (dimensions = 512): Embedder => ({
+  dimensions,
+  embed: async (texts) =>
+    texts.map((text) => {
+      const vector = new Float32Array(dimensions);
+      for (const token of tokenize(text)) {
+        const features = [token];
+        const padded = `#${token}#`;
+        for (let i = 0; i + 3 <= padded.length; i++) features.push(padded.slice(i, i + 3));
+
+        for (const feature of features) {
+          const h = hash(feature);
+          vector[h % dimensions] += h & 0x80000000 ? -1 : 1;
+        }
+      }
+      return normalize(vector);
+    }),
+});
+
+const dot = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+// Brute-force cosine search; embeddings are assumed to be normalized.
+export const createVectorIndex = async (chunks: TextChunk[], embedder: Embedder): Promise<VectorIndex> => {
+  const vectors = await embedder.embed(chunks.map((chunk) => chunk.text));
+
+  return {
+    search: async (query, k) => {
+      const [queryVector] = await embedder.embed([query]);
+      return vectors
+        .map((vector, chunkIndex) => ({ chunk: chunks[chunkIndex], score: dot(vector, queryVector) }))
+        .filter((result) => result.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k);
+    },
+  };
+};
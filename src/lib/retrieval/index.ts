@@ -0,0 +1,124 @@
+import { ChatSettings, PageText, ScoredChunk, TextChunk } from '../../types';
+import { chunkPages, ChunkOptions } from './chunking';
+import { createBM25Index } from './bm25';
+import { createHashingEmbedder, createVectorIndex, Embedder } from './embeddings';
+
+export interface RetrievalOptions extends ChunkOptions {
+  embedder?: Embedder;
+}
+
+export interface RetrievalIndex {
+  chunks: TextChunk[];
+  search: (query: string, k: number) => Promise<ScoredChunk[]>;
+}
+
+export interface RetrievalConfig {
+  topK: number;
+  useEmbeddings: boolean;
+}
+
+// Reads retrieval settings from the workspace's chat settings, falling back to
+// the Vite environment (VITE_RETRIEVAL_TOP_K, VITE_RETRIEVAL_EMBEDDINGS).
+export const getRetrievalConfig = (settings: ChatSettings = {}): RetrievalConfig => {
+  const env = import.meta.env;
+  const topK = settings.topK ?? Number.parseInt(env.VITE_RETRIEVAL_TOP_K ?? '', 10);
+
+  return {
+    topK: Number.isFinite(topK) && topK > 0 ? topK : 6,
+    useEmbeddings: env.VITE_RETRIEVAL_EMBEDDINGS === 'true',
+  };
+};
+
+// Constant from the reciprocal rank fusion paper (Cormack et al., 2009)
+const RRF_K = 60;
+
+const fuse = (rankings: ScoredChunk[][], k: number): ScoredChunk[] => {
+  const fused = new Map<string, ScoredChunk>();
+
+  for (const ranking of rankings) {
+    ranking.forEach(({ chunk }, rank) => {
+      const score = (fused.get(chunk.id)?.score ?? 0) + 1 / (RRF_K + rank + 1);
+      fused.set(chunk.id, { chunk, score });
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, k);
+};
+
+// Chunks the pages and indexes them with BM25 and, when an embedder is given,
+// a vector index. Hybrid results are merged with reciprocal rank fusion.
+export const createRetrievalIndex = async (
+  documentId: string,
+  pages: PageText[],
+  { embedder, ...chunkOptions }: RetrievalOptions = {}
+): Promise<RetrievalIndex> => {
+  const chunks = chunkPages(documentId, pages, chunkOptions);
+  const bm25 = createBM25Index(chunks);
+  const vectors = embedder ? await createVectorIndex(chunks, embedder) : null;
+
+  return {
+    chunks,
+    search: async (query, k) => {
+      // Over-fetch from each ranker so fusion has something to work with
+      const lexical = bm25.search(query, k * 2);
+      if (!vectors) return lexical.slice(0, k);
+      return fuse([lexical, await vectors.search(query, k * 2)], k);
+    },
+  };
+};
+
+// Indexes are cached per extracted page array, so they are rebuilt only when
+// a document's text changes.
+const indexCache = new WeakMap<PageText[], Promise<RetrievalIndex>>();
+
+export const getRetrievalIndex = (documentId: string, pages: PageText[]): Promise<RetrievalIndex> => {
+  let index = indexCache.get(pages);
+  if (!index) {
+    const { useEmbeddings } = getRetrievalConfig();
+    index = createRetrievalIndex(documentId, pages, {
+      embedder: useEmbeddings ? createHashingEmbedder() : undefined,
+    });
+    indexCache.set(pages, index);
+  }
+  return index;
+};
+
+export interface RetrievalSource {
+  documentId: string;
+  pages: PageText[];
+}
+
+// Searches several documents at once. BM25 scores are not comparable between
+// indexes, so each document's ranking is merged by rank instead, which also
+// keeps one long document from crowding out the others. Questions about a
+// document as a whole ("Summarize this") match few terms, so fewer than `k`
+// hits are topped up with the opening chunks of each document in turn.
+export const searchDocuments = async (sources: RetrievalSource[], query: string, k: number): Promise<ScoredChunk[]> => {
+  const indexes = await Promise.all(sources.map(({ documentId, pages }) => getRetrievalIndex(documentId, pages)));
+  const rankings = await Promise.all(indexes.map((index) => index.search(query, k)));
+  const results = rankings.length === 1 ? [...rankings[0]] : fuse(rankings, k);
+
+  const picked = new Set(results.map(({ chunk }) => chunk.id));
+  const longest = Math.max(0, ...indexes.map((index) => index.chunks.length));
+  for (let position = 0; position < longest && results.length < k; position++) {
+    for (const { chunks } of indexes) {
+      const chunk = chunks[position];
+      if (!chunk || picked.has(chunk.id) || results.length >= k) continue;
+      picked.add(chunk.id);
+      results.push({ chunk, score: 0 });
+    }
+  }
+  return results;
+};
+
+// Passages are handed to the model in reading order rather than by score,
+// grouped by document in the order of `documentIds`.
+export const toContextPassages = (results: ScoredChunk[], documentIds: string[] = []): TextChunk[] =>
+  results
+    .map((result) => result.chunk)
+    .sort(
+      (a, b) =>
+        documentIds.indexOf(a.documentId) - documentIds.indexOf(b.documentId) ||
+        a.pageNumber - b.pageNumber ||
+        a.start - b.start
+    );
@@ -0,0 +1,37 @@
+// Paths of the app's deep-linkable views. Document routes are handled by the
+// main page, which keeps them in sync with the store.
+
+export interface DocumentRoute {
+  documentId: string;
+  pageNumber?: number;
+  threadId?: string;
+}
+
+export const DOCUMENT_ROUTES = ['/doc/:docId', '/doc/:docId/page/:pageNumber', '/doc/:docId/thread/:threadId'];
+
+export const COMPARE_ROUTE = '/compare/:beforeId/:afterId';
+
+// Page 1 is implied by the bare document path
+export const documentPath = ({ documentId, pageNumber, threadId }: DocumentRoute) => {
+  const base = `/doc/${encodeURIComponent(documentId)}`;
+  if (threadId) return `${base}/thread/${encodeURIComponent(threadId)}`;
+  return pageNumber && pageNumber > 1 ? `${base}/page/${pageNumber}` : base;
+};
+
+export const comparePath = (beforeId: string, afterId: string) =>
+  `/compare/${encodeURIComponent(beforeId)}/${encodeURIComponent(afterId)}`;
+
+// Route params as read by useParams; anything malformed is dropped.
+export const parseDocumentRoute = (params: {
+  docId?: string;
+  pageNumber?: string;
+  threadId?: string;
+}): DocumentRoute | null => {
+  if (!params.docId) return null;
+  const pageNumber = Number.parseInt(params.pageNumber ?? '', 10);
+  return {
+    documentId: params.docId,
+    pageNumber: Number.isFinite(pageNumber) && pageNumber > 0 ? pageNumber : undefined,
+    threadId: params.threadId,
+  };
+};
@@ -0,0 +1,114 @@
+import { PDFDocument } from '../../types';
+
+export interface UploadConfig {
+  maxFileSizeBytes: number;
+}
+
+const DEFAULT_MAX_UPLOAD_MB = 50;
+
+export const getUploadConfig = (): UploadConfig => {
+  const maxMb = Number.parseFloat(import.meta.env.VITE_MAX_UPLOAD_MB ?? '');
+  return {
+    maxFileSizeBytes: (Number.isFinite(maxMb) && maxMb > 0 ? maxMb : DEFAULT_MAX_UPLOAD_MB) * 1024 * 1024,
+  };
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const looksLikePdf = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+// Checks what can be decided without reading the file; returns a reason when
+// the file is rejected.
+export const validateFile = (file: File, { maxFileSizeBytes }: UploadConfig): string | null => {
+  if (!looksLikePdf(file)) return 'Not a PDF file';
+  if (file.size === 0) return 'File is empty';
+  if (file.size > maxFileSizeBytes) return `Larger than the ${formatFileSize(maxFileSizeBytes)} limit`;
+  return null;
+};
+
+// Reads a file in chunks so large uploads can report progress (0-1).
+export const readFileBytes = async (file: File, onProgress: (fraction: number) => void): Promise<Uint8Array> => {
+  const bytes = new Uint8Array(file.size);
+  const reader = file.stream().getReader();
+  let offset = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes.set(value, offset);
+    offset += value.length;
+    onProgress(offset / file.size);
+  }
+
+  return bytes;
+};
+
+// Every PDF starts with a "%PDF-" header
+export const hasPdfHeader = (bytes: Uint8Array) =>
+  String.fromCharCode(...bytes.subarray(0, 5)) === '%PDF-';
+
+export const hashBytes = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const fileHashes = new WeakMap<File, Promise<string>>();
+
+// Documents restored from before hashes were recorded get one on demand.
+export const getContentHash = (document: PDFDocument): Promise<string> => {
+  if (document.contentHash) return Promise.resolve(document.contentHash);
+
+  let hash = fileHashes.get(document.file);
+  if (!hash) {
+    hash = document.file.arrayBuffer().then((buffer) => hashBytes(new Uint8Array(buffer)));
+    fileHashes.set(document.file, hash);
+  }
+  return hash;
+};
+
+const readDirectory = (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  // readEntries returns the listing in batches until it yields an empty one
+  return new Promise((resolve, reject) => {
+    const readBatch = () =>
+      reader.readEntries((batch) => {
+        if (batch.length === 0) {
+          resolve(entries);
+          return;
+        }
+        entries.push(...batch);
+        readBatch();
+      }, reject);
+    readBatch();
+  });
+};
+
+const collectEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file((file) => resolve([file]), reject));
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    return (await Promise.all(children.map(collectEntryFiles))).flat();
+  }
+  return [];
+};
+
+// All files in a drop, descending into dropped folders. Entries have to be
+// taken from the DataTransfer synchronously, before the event handler returns.
+export const collectDroppedFiles = (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => Boolean(entry));
+
+  if (entries.length === 0) return Promise.resolve(Array.from(dataTransfer.files));
+  return Promise.all(entries.map(collectEntryFiles)).then((files) => files.flat());
+};
+
+// Folder uploads bring along whatever else was in the folder; those files are
+// skipped quietly rather than reported as errors.
+export const isHiddenOrSystemFile = (file: File) => file.name.startsWith('.') || file.name === 'Thumbs.db';
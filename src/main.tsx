@@ -1,5 +1,10 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { initPersistence } from './lib/persistence'
+import { registerServiceWorker } from './lib/offline'
+
+initPersistence();
+registerServiceWorker();
 
 createRoot(document.getElementById("root")!).render(<App />);
@@ -0,0 +1,246 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, ArrowLeftRight, Link2, Link2Off } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import ComparePane, { CompareSide, PanePosition, PaneTarget } from '../components/ComparePane';
+import CompareChangeList from '../components/CompareChangeList';
+import ChatPanel from '../components/ChatPanel';
+import { diffDocuments, ParagraphChange, selectChangeContext, splitParagraphs } from '../lib/compare';
+import { getRetrievalConfig } from '../lib/retrieval';
+import { comparePath } from '../lib/routes';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+const SUGGESTED_PROMPTS = [
+  'Summarize the differences between the two versions.',
+  'Which changes affect obligations, deadlines or amounts?',
+];
+
+const OTHER_SIDE: Record<CompareSide, CompareSide> = { before: 'after', after: 'before' };
+
+// Two documents side by side with a paragraph-level diff of their text and a
+// chat that can explain the differences.
+const Compare = () => {
+  const { beforeId, afterId } = useParams();
+  const navigate = useNavigate();
+  const { documents, documentTexts, isHydrated, viewerTarget, chatSettings } = useStore();
+  const [activeChangeId, setActiveChangeId] = useState<string | null>(null);
+  const [isSynced, setIsSynced] = useState(true);
+  const [targets, setTargets] = useState<Record<CompareSide, PaneTarget | null>>({ before: null, after: null });
+  const requestIdRef = useRef(0);
+  // Citations followed before this view opened are not replayed
+  const initialViewerRequestRef = useRef(viewerTarget?.requestId ?? 0);
+
+  const before = documents.find((document) => document.id === beforeId);
+  const after = documents.find((document) => document.id === afterId);
+  const beforeText = before ? documentTexts[before.id] : undefined;
+  const afterText = after ? documentTexts[after.id] : undefined;
+  const isReady = beforeText?.status === 'ready' && afterText?.status === 'ready';
+
+  const changes = useMemo(
+    () =>
+      beforeId && afterId && beforeText?.status === 'ready' && afterText?.status === 'ready'
+        ? diffDocuments(splitParagraphs(beforeId, beforeText.pages), splitParagraphs(afterId, afterText.pages))
+        : [],
+    [beforeId, afterId, beforeText, afterText]
+  );
+  const counts = useMemo(
+    () => ({
+      added: changes.filter((change) => change.kind === 'added').length,
+      removed: changes.filter((change) => change.kind === 'removed').length,
+      changed: changes.filter((change) => change.kind === 'changed').length,
+    }),
+    [changes]
+  );
+  const chatDocumentIds = useMemo(
+    () => (before && after ? [before.id, after.id] : undefined),
+    [before, after]
+  );
+
+  const requestScroll = useCallback((side: CompareSide, target: Omit<PaneTarget, 'requestId'>) => {
+    const requestId = ++requestIdRef.current;
+    setTargets((current) => ({ ...current, [side]: { ...target, requestId } }));
+  }, []);
+
+  useEffect(() => {
+    setTargets({ before: null, after: null });
+    setActiveChangeId(null);
+  }, [beforeId, afterId]);
+
+  const handleScrollPositionChange = (side: CompareSide) => (position: PanePosition) => {
+    if (isSynced) requestScroll(OTHER_SIDE[side], { ...position, silent: true });
+  };
+
+  const selectChange = (change: ParagraphChange) => {
+    setActiveChangeId(change.id);
+    for (const [side, paragraph] of [['before', change.before], ['after', change.after]] as const) {
+      if (!paragraph) continue;
+      requestScroll(side, {
+        pageNumber: paragraph.pageNumber,
+        fraction: 0,
+        highlight: { start: paragraph.start, end: paragraph.end },
+        silent: true,
+      });
+    }
+  };
+
+  const handleChangeClick = (changeId: string) => {
+    const change = changes.find((candidate) => candidate.id === changeId);
+    if (change) selectChange(change);
+  };
+
+  // Citations in the chat point at one of the two panes
+  useEffect(() => {
+    if (!viewerTarget || viewerTarget.requestId <= initialViewerRequestRef.current) return;
+    const side = viewerTarget.documentId === beforeId ? 'before' : viewerTarget.documentId === afterId ? 'after' : null;
+    if (!side) return;
+    requestScroll(side, {
+      pageNumber: viewerTarget.pageNumber,
+      fraction: 0,
+      highlight: viewerTarget.highlight,
+      silent: true,
+    });
+  }, [viewerTarget, beforeId, afterId, requestScroll]);
+
+  const renderPaneHeader = (label: string, name: string) => (
+    <div className="px-4 py-2 border-b border-gray-200 bg-white flex items-baseline gap-2 min-w-0">
+      <span className="text-xs font-medium uppercase tracking-wide text-gray-500">{label}</span>
+      <span className="text-sm text-gray-900 truncate" title={name}>{name}</span>
+    </div>
+  );
+
+  let body: React.ReactNode;
+  if (!isHydrated) {
+    body = (
+      <div className="h-full flex items-center justify-center text-gray-600">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mr-3"></div>
+        Loading documents...
+      </div>
+    );
+  } else if (!before || !after) {
+    body = (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center p-8 rounded-xl bg-white shadow-lg border border-gray-200">
+          <h3 className="text-xl font-semibold text-gray-900 mb-3">Document not found</h3>
+          <p className="text-gray-600 max-w-sm mb-4">One of the documents to compare is no longer in the library.</p>
+          <Link to="/" className="text-blue-600 hover:text-blue-800 underline">Back to the library</Link>
+        </div>
+      </div>
+    );
+  } else {
+    body = (
+      <ResizablePanelGroup
+        direction="horizontal"
+        className="rounded-xl border border-gray-200 bg-white shadow-lg overflow-hidden"
+      >
+        <ResizablePanel defaultSize={35} minSize={20} className="flex flex-col">
+          {renderPaneHeader('Original', before.name)}
+          <div className="flex-1 min-h-0">
+            <ComparePane
+              document={before}
+              side="before"
+              pages={beforeText?.pages ?? []}
+              changes={changes}
+              activeChangeId={activeChangeId}
+              target={targets.before}
+              onChangeClick={handleChangeClick}
+              onScrollPositionChange={handleScrollPositionChange('before')}
+            />
+          </div>
+        </ResizablePanel>
+        <ResizableHandle withHandle />
+        <ResizablePanel defaultSize={35} minSize={20} className="flex flex-col">
+          {renderPaneHeader('Revised', after.name)}
+          <div className="flex-1 min-h-0">
+            <ComparePane
+              document={after}
+              side="after"
+              pages={afterText?.pages ?? []}
+              changes={changes}
+              activeChangeId={activeChangeId}
+              target={targets.after}
+              onChangeClick={handleChangeClick}
+              onScrollPositionChange={handleScrollPositionChange('after')}
+            />
+          </div>
+        </ResizablePanel>
+        <ResizableHandle withHandle />
+        <ResizablePanel defaultSize={30} minSize={20}>
+          <Tabs defaultValue="changes" className="h-full flex flex-col">
+            <TabsList className="m-2 grid grid-cols-2 h-8 flex-shrink-0">
+              <TabsTrigger value="changes" className="text-xs py-1">
+                Changes{isReady ? ` (${changes.length})` : ''}
+              </TabsTrigger>
+              <TabsTrigger value="chat" className="text-xs py-1">Explain</TabsTrigger>
+            </TabsList>
+            <TabsContent value="changes" className="flex-1 min-h-0 mt-0 overflow-y-auto px-2 pb-2">
+              {isReady ? (
+                <CompareChangeList changes={changes} activeId={activeChangeId} onSelect={selectChange} />
+              ) : (
+                <p className="p-2 text-xs text-gray-500">
+                  {beforeText?.status === 'error' || afterText?.status === 'error'
+                    ? 'Could not read the text of both documents.'
+                    : 'Reading documents...'}
+                </p>
+              )}
+            </TabsContent>
+            {/* Kept mounted so switching tabs does not stop a streaming reply */}
+            <TabsContent value="chat" forceMount className="flex-1 min-h-0 mt-0 border-t border-gray-200 data-[state=inactive]:hidden">
+              <ChatPanel
+                documentIds={chatDocumentIds}
+                retrieveContext={
+                  isReady ? (query) => selectChangeContext(changes, query, getRetrievalConfig(chatSettings).topK) : undefined
+                }
+                suggestedPrompts={SUGGESTED_PROMPTS}
+              />
+            </TabsContent>
+          </Tabs>
+        </ResizablePanel>
+      </ResizablePanelGroup>
+    );
+  }
+
+  return (
+    <div className="h-screen flex flex-col bg-gradient-to-br from-slate-50 to-blue-50">
+      <header className="bg-white/95 backdrop-blur-sm border-b border-gray-200 px-6 py-4 shadow-sm flex items-center gap-4 flex-shrink-0">
+        <Link to="/" title="Back to the library" className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-700">
+          <ArrowLeft className="h-5 w-5" />
+        </Link>
+        <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+          Compare documents
+        </h1>
+        {isReady && (
+          <div className="flex items-center gap-2 text-xs">
+            <span className="rounded-full bg-green-100 px-2 py-0.5 text-green-800">{counts.added} added</span>
+            <span className="rounded-full bg-red-100 px-2 py-0.5 text-red-700">{counts.removed} removed</span>
+            <span className="rounded-full bg-amber-100 px-2 py-0.5 text-amber-800">{counts.changed} changed</span>
+          </div>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={() => setIsSynced((synced) => !synced)}
+            aria-pressed={isSynced}
+            title={isSynced ? 'Scroll panes independently' : 'Scroll panes together'}
+            className={`p-2 rounded-md transition-colors ${
+              isSynced ? 'bg-blue-100 text-blue-700' : 'text-gray-500 hover:bg-gray-100 hover:text-gray-700'
+            }`}
+          >
+            {isSynced ? <Link2 className="h-4 w-4" /> : <Link2Off className="h-4 w-4" />}
+          </button>
+          <button
+            onClick={() => before && after && navigate(comparePath(after.id, before.id))}
+            disabled={!before || !after}
+            title="Swap original and revised"
+            className="p-2 rounded-md text-gray-500 hover:bg-gray-100 hover:text-gray-700 disabled:opacity-50"
+          >
+            <ArrowLeftRight className="h-4 w-4" />
+          </button>
+        </div>
+      </header>
+
+      <div className="flex-1 min-h-0 p-4">{body}</div>
+    </div>
+  );
+};
+
+export default Compare;
@@ -4,8 +4,11 @@ import { SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
 import AppSidebar from '../components/AppSidebar';
 import PDFViewer from '../components/PDFViewer';
 import ChatPanel from '../components/ChatPanel';
+import { useRouteSync } from '../hooks/use-route-sync';
 
 const Index = () => {
+  useRouteSync();
+
   return (
     <SidebarProvider>
       <div className="min-h-screen flex w-full bg-gradient-to-br from-slate-50 to-blue-50">
@@ -0,0 +1,37 @@
+// Precaches the built app so it opens and renders PDFs without a network
+// connection. The build replaces the two placeholders below with the list of
+// emitted files and a hash of their contents (see vite.config.ts). Documents,
+// their text and conversations are kept in IndexedDB by the app itself.
+const CACHE_PREFIX = 'chat-pdf-flow-';
+const CACHE_NAME = `${CACHE_PREFIX}${self.__PRECACHE_VERSION}`;
+const PRECACHE_URLS = self.__PRECACHE_MANIFEST;
+const APP_SHELL_URL = new URL('index.html', self.registration.scope).href;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(PRECACHE_URLS)));
+});
+
+// A new version only activates once no tab runs the old one, so old tabs
+// never lose the hashed assets they still reference
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys().then((keys) =>
+      Promise.all(
+        keys.filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map((key) => caches.delete(key))
+      )
+    )
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  // Every route renders the same app shell; prefer a fresh one when online
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(() => caches.match(APP_SHELL_URL)));
+    return;
+  }
+
+  event.respondWith(caches.match(request).then((cached) => cached || fetch(request)));
+});
@@ -1,37 +1,513 @@
 
 import { create } from 'zustand';
-import { AppStore, PDFDocument, ChatMessage } from '../types';
+import {
+  Annotation,
+  AppState,
+  AppStore,
+  PDFDocument,
+  ChatMessage,
+  ChatThread,
+  DocumentConversation,
+  DocumentText,
+  ThreadRef,
+} from '../types';
+import { extractDocumentMetadata, extractDocumentText } from '../lib/pdf/textExtraction';
+import { isInFolder, normalizeFolderPath, normalizeTag, parentFolder, sortDocuments } from '../lib/library';
+import { loadSessionApiKey, saveSessionApiKey } from '../lib/chat';
+
+export const DEFAULT_THREAD_TITLE = 'New chat';
+
+// Conversation key for threads that span several documents
+export const LIBRARY_CONVERSATION_ID = 'library';
+
+const EMPTY_CONVERSATION: DocumentConversation = { threads: [], activeThreadId: null };
+
+export const selectConversation = (state: AppState, documentId: string | undefined): DocumentConversation =>
+  (documentId && state.conversations[documentId]) || EMPTY_CONVERSATION;
+
+const EMPTY_ANNOTATIONS: Annotation[] = [];
+
+export const selectAnnotations = (state: AppState, documentId: string | undefined): Annotation[] =>
+  (documentId && state.annotations[documentId]) || EMPTY_ANNOTATIONS;
+
+export const selectActiveThread = (state: AppState, documentId: string | undefined): ChatThread | null => {
+  const conversation = selectConversation(state, documentId);
+  return conversation.threads.find((thread) => thread.id === conversation.activeThreadId) ?? null;
+};
+
+// Whether a library thread spans exactly the given documents, in any order
+export const isSameScope = (threadDocumentIds: string[] | undefined, documentIds: string[]) =>
+  threadDocumentIds?.length === documentIds.length && documentIds.every((id) => threadDocumentIds.includes(id));
+
+// Returns a copy of `conversations` with one thread replaced by `update(thread)`.
+const updateThread = (
+  conversations: AppState['conversations'],
+  { documentId, threadId }: ThreadRef,
+  update: (thread: ChatThread) => ChatThread
+): AppState['conversations'] => {
+  const conversation = conversations[documentId];
+  if (!conversation) return conversations;
+
+  return {
+    ...conversations,
+    [documentId]: {
+      ...conversation,
+      threads: conversation.threads.map((thread) => (thread.id === threadId ? update(thread) : thread)),
+    },
+  };
+};
+
+const updateMessages = (
+  conversations: AppState['conversations'],
+  ref: ThreadRef,
+  update: (messages: ChatMessage[]) => ChatMessage[]
+) => updateThread(conversations, ref, (thread) => ({ ...thread, messages: update(thread.messages) }));
+
+// Library threads lose a removed document from their scope, and are deleted
+// once none of their documents are left.
+const withoutLibraryDocument = (conversations: AppState['conversations'], documentId: string) => {
+  const library = conversations[LIBRARY_CONVERSATION_ID];
+  if (!library?.threads.some((thread) => thread.documentIds?.includes(documentId))) return conversations;
+
+  const threads = library.threads
+    .map((thread) =>
+      thread.documentIds?.includes(documentId)
+        ? { ...thread, documentIds: thread.documentIds.filter((id) => id !== documentId) }
+        : thread
+    )
+    .filter((thread) => !thread.documentIds || thread.documentIds.length > 0);
+  const activeThreadId = threads.some((thread) => thread.id === library.activeThreadId)
+    ? library.activeThreadId
+    : threads[threads.length - 1]?.id ?? null;
+  return { ...conversations, [LIBRARY_CONVERSATION_ID]: { threads, activeThreadId } };
+};
+
+// Switches to a different document at its first page, recording when it was opened.
+const openDocument = (
+  state: AppState,
+  document: PDFDocument
+): Pick<AppState, 'documents' | 'currentDocument' | 'currentPage'> => {
+  const opened = { ...document, lastOpenedAt: new Date() };
+  return {
+    currentDocument: opened,
+    currentPage: 1,
+    documents: state.documents.map((doc) => (doc.id === document.id ? opened : doc)),
+  };
+};
+
+// Applies `update` to the given documents, keeping currentDocument in step.
+const updateDocuments = (
+  state: AppState,
+  documentIds: string[],
+  update: (document: PDFDocument) => PDFDocument
+): Pick<AppState, 'documents' | 'currentDocument'> => {
+  const ids = new Set(documentIds);
+  const documents = state.documents.map((doc) => (ids.has(doc.id) ? update(doc) : doc));
+  const currentId = state.currentDocument?.id;
+  return {
+    documents,
+    currentDocument: currentId && ids.has(currentId) ? documents.find((doc) => doc.id === currentId) ?? null : state.currentDocument,
+  };
+};
+
+// Fills in metadata for text extracted before metadata was recorded
+const loadMissingMetadata = (document: PDFDocument) => {
+  extractDocumentMetadata(document.file)
+    .then((metadata) => {
+      const current = useStore.getState().documentTexts[document.id];
+      if (current?.status === 'ready') useStore.getState().setDocumentText(document.id, { ...current, metadata });
+    })
+    .catch((error) => console.error('PDF metadata error:', error));
+};
+
+// Extracts page text in the background so chat can use it as context
+const extractText = (document: PDFDocument) => {
+  const { setDocumentText } = useStore.getState();
+  setDocumentText(document.id, { status: 'extracting', pages: [] });
+
+  extractDocumentText(document.file, (extractedPages, totalPages) => {
+    const current = useStore.getState().documentTexts[document.id];
+    if (current?.status === 'extracting') {
+      setDocumentText(document.id, { ...current, extractedPages, totalPages });
+    }
+  })
+    .then(({ pages, metadata }) => {
+      setDocumentText(document.id, {
+        status: 'ready',
+        pages,
+        extractedPages: pages.length,
+        totalPages: pages.length,
+        metadata,
+      });
+    })
+    .catch((error) => {
+      console.error('PDF text extraction error:', error);
+      setDocumentText(document.id, {
+        status: 'error',
+        pages: [],
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+};
 
 export const useStore = create<AppStore>((set, get) => ({
   // State
   documents: [],
   currentDocument: null,
-  messages: [],
+  currentPage: 1,
+  documentTexts: {},
+  conversations: {},
+  annotations: {},
   isLoading: false,
+  viewerTarget: null,
+  isHydrated: false,
+  pendingPrompt: null,
+  librarySort: 'added',
+  folders: [],
+  chatScope: [],
+  chatSettings: {},
+  chatApiKey: loadSessionApiKey(),
 
   // Actions
+  hydrate: (snapshot) => {
+    if (!snapshot) {
+      set({ isHydrated: true });
+      return;
+    }
+
+    set((state) => {
+      // Anything added while the workspace was loading wins over stored data
+      const loadedIds = new Set(state.documents.map((document) => document.id));
+      const documents = [
+        ...snapshot.documents.filter((document) => !loadedIds.has(document.id)),
+        ...state.documents,
+      ];
+      return {
+        documents,
+        documentTexts: { ...snapshot.documentTexts, ...state.documentTexts },
+        conversations: { ...snapshot.conversations, ...state.conversations },
+        annotations: { ...snapshot.annotations, ...state.annotations },
+        librarySort: snapshot.librarySort,
+        folders: [...new Set([...snapshot.folders, ...state.folders])],
+        chatSettings: snapshot.chatSettings,
+        currentDocument:
+          state.currentDocument ??
+          documents.find((document) => document.id === snapshot.currentDocumentId) ??
+          null,
+        isHydrated: true,
+      };
+    });
+
+    // Re-run extraction for documents whose text was never finished
+    for (const document of snapshot.documents) {
+      const text = get().documentTexts[document.id];
+      if (text?.status !== 'ready') extractText(document);
+      else if (!text.metadata) loadMissingMetadata(document);
+    }
+  },
+
   addDocument: (document: PDFDocument) => {
     set((state) => ({
       documents: [...state.documents, document],
     }));
+    extractText(document);
   },
 
   setCurrentDocument: (document: PDFDocument | null) => {
-    set({ currentDocument: document });
+    set((state) => {
+      if (!document || document.id === state.currentDocument?.id) {
+        return { currentDocument: document };
+      }
+      return openDocument(state, document);
+    });
+  },
+
+  removeDocument: (documentId) => {
+    const document = get().documents.find((doc) => doc.id === documentId);
+    if (!document) return;
+
+    URL.revokeObjectURL(document.url);
+    set((state) => {
+      const index = state.documents.indexOf(document);
+      const documents = state.documents.filter((doc) => doc.id !== documentId);
+      const omit = <T>(record: Record<string, T>) =>
+        Object.fromEntries(Object.entries(record).filter(([id]) => id !== documentId));
+      const isCurrent = state.currentDocument?.id === documentId;
+      const fallback = isCurrent ? documents[Math.min(index, documents.length - 1)] : undefined;
+      const chatScope = state.chatScope.filter((id) => id !== documentId);
+
+      return {
+        documents,
+        documentTexts: omit(state.documentTexts),
+        conversations: withoutLibraryDocument(omit(state.conversations), documentId),
+        annotations: omit(state.annotations),
+        chatScope: chatScope.length > 1 ? chatScope : [],
+        currentDocument: isCurrent ? null : state.currentDocument,
+        currentPage: isCurrent ? 1 : state.currentPage,
+        viewerTarget: state.viewerTarget?.documentId === documentId ? null : state.viewerTarget,
+        // Fall back to the neighbouring document in the list, opened like any other
+        ...(fallback ? openDocument({ ...state, documents }, fallback) : {}),
+      };
+    });
+  },
+
+  renameDocument: (documentId, name) => {
+    set((state) => updateDocuments(state, [documentId], (doc) => ({ ...doc, name })));
+  },
+
+  setDocumentPinned: (documentId, pinned) => {
+    set((state) => updateDocuments(state, [documentId], (doc) => ({ ...doc, pinned })));
+  },
+
+  duplicateDocument: (documentId) => {
+    const { documents, documentTexts } = get();
+    const original = documents.find((doc) => doc.id === documentId);
+    if (!original) return null;
+
+    const copy: PDFDocument = {
+      id: crypto.randomUUID(),
+      name: original.name.replace(/(\.pdf)?$/i, (extension) => ` (copy)${extension}`),
+      file: original.file,
+      url: URL.createObjectURL(original.file),
+      contentHash: original.contentHash,
+      addedAt: new Date(),
+      folder: original.folder,
+      tags: original.tags,
+    };
+    const text = documentTexts[documentId];
+
+    set((state) => ({
+      documents: [...state.documents, copy],
+      // Extracted text is the same for identical bytes. The page array is
+      // copied because retrieval indexes are cached per array and carry the
+      // document id in their chunks.
+      documentTexts:
+        text?.status === 'ready'
+          ? { ...state.documentTexts, [copy.id]: { ...text, pages: [...text.pages] } }
+          : state.documentTexts,
+    }));
+    if (text?.status !== 'ready') extractText(copy);
+    return copy.id;
   },
 
-  addMessage: (message) => {
+  setLibrarySort: (sort) => {
+    set({ librarySort: sort });
+  },
+
+  // Moves the document to where `targetId` is shown, starting from the order
+  // currently on screen, and keeps that arrangement as the custom order
+  reorderDocument: (documentId, targetId) => {
+    set((state) => {
+      const ordered = sortDocuments(state.documents, state.librarySort);
+      const from = ordered.findIndex((doc) => doc.id === documentId);
+      const to = ordered.findIndex((doc) => doc.id === targetId);
+      if (from < 0 || to < 0 || from === to) return {};
+
+      const [moved] = ordered.splice(from, 1);
+      ordered.splice(to, 0, moved);
+      return { documents: ordered, librarySort: 'manual' };
+    });
+  },
+
+  createFolder: (path) => {
+    const folder = normalizeFolderPath(path);
+    if (!folder) return;
+    set((state) => (state.folders.includes(folder) ? {} : { folders: [...state.folders, folder] }));
+  },
+
+  // Removes the folder and its subfolders; their documents move up to the parent
+  deleteFolder: (path) => {
+    const folder = normalizeFolderPath(path);
+    if (!folder) return;
+
+    set((state) => {
+      const ids = state.documents.filter((doc) => isInFolder(doc.folder, folder)).map((doc) => doc.id);
+      return {
+        ...updateDocuments(state, ids, (doc) => ({ ...doc, folder: parentFolder(folder) })),
+        folders: state.folders.filter((candidate) => !isInFolder(candidate, folder)),
+      };
+    });
+  },
+
+  moveDocuments: (documentIds, path) => {
+    const folder = normalizeFolderPath(path);
+    set((state) => ({
+      ...updateDocuments(state, documentIds, (doc) => ({ ...doc, folder })),
+      folders: !folder || state.folders.includes(folder) ? state.folders : [...state.folders, folder],
+    }));
+  },
+
+  addTag: (documentIds, tag) => {
+    const normalized = normalizeTag(tag);
+    if (!normalized) return;
+    set((state) =>
+      updateDocuments(state, documentIds, (doc) =>
+        doc.tags.includes(normalized) ? doc : { ...doc, tags: [...doc.tags, normalized] }
+      )
+    );
+  },
+
+  removeTag: (documentIds, tag) => {
+    set((state) =>
+      updateDocuments(state, documentIds, (doc) => ({ ...doc, tags: doc.tags.filter((existing) => existing !== tag) }))
+    );
+  },
+
+  setChatScope: (documentIds) => {
+    const ids = [...new Set(documentIds)];
+    set({ chatScope: ids.length > 1 ? ids : [] });
+  },
+
+  setChatSettings: (settings) => {
+    set({ chatSettings: settings });
+  },
+
+  setChatApiKey: (apiKey) => {
+    saveSessionApiKey(apiKey);
+    set({ chatApiKey: apiKey });
+  },
+
+  setCurrentPage: (pageNumber: number) => {
+    set({ currentPage: pageNumber });
+  },
+
+  setDocumentText: (documentId: string, text: DocumentText) => {
+    set((state) => ({
+      documentTexts: { ...state.documentTexts, [documentId]: text },
+    }));
+  },
+
+  createThread: (documentId, title = DEFAULT_THREAD_TITLE, documentIds) => {
+    const thread: ChatThread = {
+      id: crypto.randomUUID(),
+      title,
+      messages: [],
+      createdAt: new Date(),
+      ...(documentIds ? { documentIds } : {}),
+    };
+    set((state) => {
+      const conversation = selectConversation(state, documentId);
+      return {
+        conversations: {
+          ...state.conversations,
+          [documentId]: { threads: [...conversation.threads, thread], activeThreadId: thread.id },
+        },
+      };
+    });
+    return thread.id;
+  },
+
+  renameThread: (ref, title) => {
+    set((state) => ({
+      conversations: updateThread(state.conversations, ref, (thread) => ({ ...thread, title })),
+    }));
+  },
+
+  deleteThread: ({ documentId, threadId }) => {
+    set((state) => {
+      const conversation = selectConversation(state, documentId);
+      const threads = conversation.threads.filter((thread) => thread.id !== threadId);
+      const activeThreadId =
+        conversation.activeThreadId === threadId ? threads[threads.length - 1]?.id ?? null : conversation.activeThreadId;
+      return {
+        conversations: { ...state.conversations, [documentId]: { threads, activeThreadId } },
+      };
+    });
+  },
+
+  setActiveThread: ({ documentId, threadId }) => {
+    set((state) => ({
+      conversations: {
+        ...state.conversations,
+        [documentId]: { ...selectConversation(state, documentId), activeThreadId: threadId },
+      },
+    }));
+  },
+
+  addMessage: (ref, message) => {
     const newMessage: ChatMessage = {
       ...message,
-      id: Date.now().toString(),
+      id: crypto.randomUUID(),
       timestamp: new Date(),
     };
     set((state) => ({
-      messages: [...state.messages, newMessage],
+      conversations: updateThread(state.conversations, ref, (thread) => ({
+        ...thread,
+        // Name untitled threads after their first question
+        title:
+          thread.title === DEFAULT_THREAD_TITLE && thread.messages.length === 0 && message.role === 'user'
+            ? message.text.slice(0, 60)
+            : thread.title,
+        messages: [...thread.messages, newMessage],
+      })),
+    }));
+    return newMessage.id;
+  },
+
+  updateMessage: (ref, id, patch) => {
+    set((state) => ({
+      conversations: updateMessages(state.conversations, ref, (messages) =>
+        messages.map((message) => (message.id === id ? { ...message, ...patch } : message))
+      ),
+    }));
+  },
+
+  appendMessageText: (ref, id, chunk) => {
+    set((state) => ({
+      conversations: updateMessages(state.conversations, ref, (messages) =>
+        messages.map((message) => (message.id === id ? { ...message, text: message.text + chunk } : message))
+      ),
+    }));
+  },
+
+  addAnnotation: (annotation) => {
+    const now = new Date();
+    const newAnnotation: Annotation = { ...annotation, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+    set((state) => ({
+      annotations: {
+        ...state.annotations,
+        [annotation.documentId]: [...selectAnnotations(state, annotation.documentId), newAnnotation],
+      },
+    }));
+    return newAnnotation.id;
+  },
+
+  updateAnnotation: (documentId, id, patch) => {
+    set((state) => ({
+      annotations: {
+        ...state.annotations,
+        [documentId]: selectAnnotations(state, documentId).map((annotation) =>
+          annotation.id === id ? { ...annotation, ...patch, updatedAt: new Date() } : annotation
+        ),
+      },
+    }));
+  },
+
+  deleteAnnotation: (documentId, id) => {
+    set((state) => ({
+      annotations: {
+        ...state.annotations,
+        [documentId]: selectAnnotations(state, documentId).filter((annotation) => annotation.id !== id),
+      },
     }));
   },
 
   setLoading: (loading: boolean) => {
     set({ isLoading: loading });
   },
+
+  navigateTo: (target) => {
+    const { documents, currentDocument } = get();
+    const document = documents.find((doc) => doc.id === target.documentId);
+    if (!document) return;
+
+    set((state) => ({
+      ...(currentDocument?.id === document.id ? {} : openDocument(state, document)),
+      viewerTarget: { ...target, requestId: (state.viewerTarget?.requestId ?? 0) + 1 },
+    }));
+  },
+
+  setPendingPrompt: (prompt) => {
+    set({ pendingPrompt: prompt });
+  },
 }));
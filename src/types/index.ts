@@ -4,6 +4,71 @@ export interface PDFDocument {
   name: string;
   file: File;
   url: string;
+  // SHA-256 of the file bytes, hex encoded; used to detect re-uploads
+  contentHash?: string;
+  addedAt: Date;
+  lastOpenedAt?: Date;
+  pinned?: boolean;
+  // Slash-separated folder path in the library, '' for the top level
+  folder: string;
+  tags: string[];
+}
+
+// 'manual' keeps the order the user arranged the documents in
+export type LibrarySort = 'name' | 'added' | 'opened' | 'manual';
+
+export type UploadStatus = 'pending' | 'reading' | 'added' | 'duplicate' | 'error';
+
+// One file of a batch upload, as shown in the sidebar's progress list
+export interface UploadItem {
+  id: string;
+  name: string;
+  size: number;
+  status: UploadStatus;
+  // 0-100 while reading
+  progress: number;
+  error?: string;
+}
+
+export type ChatMessageStatus = 'streaming' | 'complete' | 'stopped' | 'error';
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: Date;
+  // Documents a library thread answers across; unset for single-document threads
+  documentIds?: string[];
+}
+
+// All chat threads about one PDFDocument, or the library's multi-document threads
+export interface DocumentConversation {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+}
+
+export interface ThreadRef {
+  documentId: string;
+  threadId: string;
+}
+
+// Points an answer back at the passage it was drawn from; start/end index
+// into PageText.text of the cited page.
+export interface Citation {
+  label: number;
+  chunkId: string;
+  documentId: string;
+  pageNumber: number;
+  start: number;
+  end: number;
+}
+
+// Text the user selected in the PDF and attached to a question
+export interface ChatQuote {
+  // Missing on quotes saved before multi-document chat
+  documentId?: string;
+  text: string;
+  pageNumber: number;
 }
 
 export interface ChatMessage {
@@ -11,20 +76,247 @@ export interface ChatMessage {
   role: 'user' | 'ai';
   text: string;
   timestamp: Date;
+  status?: ChatMessageStatus;
+  citations?: Citation[];
+  quote?: ChatQuote;
+}
+
+export type SelectionActionId = 'explain' | 'summarize' | 'translate' | 'ask';
+
+// Handed from the viewer to the chat panel. Without `text` the quote is only
+// attached to the input so the user can type their own question.
+export interface PendingPrompt {
+  quote: ChatQuote;
+  text?: string;
+}
+
+export interface PageTextItem {
+  itemIndex: number;
+  str: string;
+  // Character range of this run within PageText.text
+  start: number;
+  end: number;
+  // Viewport units at scale 1, top-left origin
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Rectangle on a page in viewport units at scale 1, top-left origin
+export interface PageRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Corners of a marked region in viewport units at scale 1, top-left origin,
+// in PDF QuadPoints order: top-left, top-right, bottom-left, bottom-right
+export type PageQuad = [number, number, number, number, number, number, number, number];
+
+export type AnnotationKind = 'highlight' | 'note';
+
+export type AnnotationColor = 'yellow' | 'green' | 'blue' | 'pink' | 'orange';
+
+export interface Annotation {
+  id: string;
+  documentId: string;
+  kind: AnnotationKind;
+  pageNumber: number;
+  quads: PageQuad[];
+  color: AnnotationColor;
+  // The marked text, as selected
+  text: string;
+  note: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type AnnotationPatch = Partial<Pick<Annotation, 'kind' | 'color' | 'note'>>;
+
+export interface OutlineNode {
+  id: string;
+  title: string;
+  // null when the destination could not be resolved
+  pageNumber: number | null;
+  children: OutlineNode[];
+}
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+// start/end index into PageText.text
+export interface SearchMatch {
+  pageNumber: number;
+  start: number;
+  end: number;
+}
+
+export interface PageText {
+  pageNumber: number;
+  width: number;
+  height: number;
+  text: string;
+  items: PageTextItem[];
+}
+
+export type TextExtractionStatus = 'extracting' | 'ready' | 'error';
+
+// From the PDF's document information dictionary
+export interface PDFMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+}
+
+export interface DocumentText {
+  status: TextExtractionStatus;
+  pages: PageText[];
+  extractedPages?: number;
+  totalPages?: number;
+  error?: string;
+  metadata?: PDFMetadata;
+}
+
+export interface ViewerTarget {
+  documentId: string;
+  pageNumber: number;
+  highlight?: { start: number; end: number };
+  // Bumped on every request so navigating to the same target twice still fires
+  requestId: number;
+}
+
+// Everything restored from IndexedDB on startup
+export interface WorkspaceSnapshot {
+  documents: PDFDocument[];
+  documentTexts: Record<string, DocumentText>;
+  conversations: Record<string, DocumentConversation>;
+  annotations: Record<string, Annotation[]>;
+  currentDocumentId: string | null;
+  librarySort: LibrarySort;
+  folders: string[];
+  chatSettings: ChatSettings;
 }
 
 export interface AppState {
   documents: PDFDocument[];
   currentDocument: PDFDocument | null;
-  messages: ChatMessage[];
+  // Page of currentDocument the user is reading, as reported by the viewer
+  currentPage: number;
+  documentTexts: Record<string, DocumentText>;
+  // Keyed by PDFDocument.id, plus LIBRARY_CONVERSATION_ID for multi-document threads
+  conversations: Record<string, DocumentConversation>;
+  // Keyed by PDFDocument.id, in creation order
+  annotations: Record<string, Annotation[]>;
   isLoading: boolean;
+  viewerTarget: ViewerTarget | null;
+  isHydrated: boolean;
+  pendingPrompt: PendingPrompt | null;
+  // Order of the sidebar's document list; pinned documents always come first
+  librarySort: LibrarySort;
+  // Folder paths created in the library, including ones with no documents yet
+  folders: string[];
+  // Documents the chat answers across; with fewer than two it is about currentDocument only
+  chatScope: string[];
+  chatSettings: ChatSettings;
+  // Kept in sessionStorage only, never with the rest of the workspace
+  chatApiKey: string;
 }
 
 export interface AppActions {
+  hydrate: (snapshot: WorkspaceSnapshot | null) => void;
   addDocument: (document: PDFDocument) => void;
+  removeDocument: (documentId: string) => void;
+  renameDocument: (documentId: string, name: string) => void;
+  setDocumentPinned: (documentId: string, pinned: boolean) => void;
+  duplicateDocument: (documentId: string) => string | null;
+  setLibrarySort: (sort: LibrarySort) => void;
+  reorderDocument: (documentId: string, targetId: string) => void;
+  createFolder: (path: string) => void;
+  deleteFolder: (path: string) => void;
+  moveDocuments: (documentIds: string[], folder: string) => void;
+  addTag: (documentIds: string[], tag: string) => void;
+  removeTag: (documentIds: string[], tag: string) => void;
+  setChatScope: (documentIds: string[]) => void;
+  setChatSettings: (settings: ChatSettings) => void;
+  setChatApiKey: (apiKey: string) => void;
   setCurrentDocument: (document: PDFDocument | null) => void;
-  addMessage: (message: Omit<ChatMessage, 'id' | 'timestamp'>) => void;
+  setCurrentPage: (pageNumber: number) => void;
+  setDocumentText: (documentId: string, text: DocumentText) => void;
+  createThread: (documentId: string, title?: string, documentIds?: string[]) => string;
+  renameThread: (ref: ThreadRef, title: string) => void;
+  deleteThread: (ref: ThreadRef) => void;
+  setActiveThread: (ref: ThreadRef) => void;
+  addMessage: (ref: ThreadRef, message: Omit<ChatMessage, 'id' | 'timestamp'>) => string;
+  updateMessage: (ref: ThreadRef, id: string, patch: Partial<Omit<ChatMessage, 'id'>>) => void;
+  appendMessageText: (ref: ThreadRef, id: string, chunk: string) => void;
+  addAnnotation: (annotation: Omit<Annotation, 'id' | 'createdAt' | 'updatedAt'>) => string;
+  updateAnnotation: (documentId: string, id: string, patch: AnnotationPatch) => void;
+  deleteAnnotation: (documentId: string, id: string) => void;
   setLoading: (loading: boolean) => void;
+  navigateTo: (target: Omit<ViewerTarget, 'requestId'>) => void;
+  setPendingPrompt: (prompt: PendingPrompt | null) => void;
 }
 
 export type AppStore = AppState & AppActions;
+
+export type ChatProviderId = 'openai' | 'mock';
+
+export interface ChatProviderConfig {
+  provider: ChatProviderId;
+  endpoint: string;
+  model: string;
+  apiKey?: string;
+  // Left to the server's defaults when unset
+  temperature?: number;
+  maxTokens?: number;
+  // Instructions placed ahead of the app's own document instructions
+  systemPrompt?: string;
+}
+
+// Chosen in the settings dialog and stored with the workspace. Unset fields
+// fall back to the Vite environment.
+export interface ChatSettings {
+  provider?: ChatProviderId;
+  endpoint?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topK?: number;
+  systemPrompt?: string;
+}
+
+// A window of a page's extracted text; start/end index into PageText.text.
+export interface TextChunk {
+  id: string;
+  documentId: string;
+  pageNumber: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ScoredChunk {
+  chunk: TextChunk;
+  score: number;
+}
+
+export interface ChatRequest {
+  // The document being discussed, or every document in the chat scope
+  documents: PDFDocument[];
+  messages: ChatMessage[];
+  context: TextChunk[];
+  currentPage?: number;
+  signal?: AbortSignal;
+}
+
+export interface ChatProvider {
+  id: ChatProviderId;
+  // Yields the assistant reply incrementally; aborting `signal` ends the stream.
+  stream: (request: ChatRequest) => AsyncIterable<string>;
+}
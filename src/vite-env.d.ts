@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_CHAT_PROVIDER?: string;
+  readonly VITE_CHAT_ENDPOINT?: string;
+  readonly VITE_CHAT_MODEL?: string;
+  readonly VITE_CHAT_API_KEY?: string;
+  readonly VITE_RETRIEVAL_TOP_K?: string;
+  readonly VITE_RETRIEVAL_EMBEDDINGS?: string;
+  readonly VITE_MAX_UPLOAD_MB?: string;
+  readonly VITE_PDFJS_WORKER_URL?: string;
+  readonly VITE_PDFJS_CMAP_URL?: string;
+  readonly VITE_PDFJS_STANDARD_FONT_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
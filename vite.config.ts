@@ -1,8 +1,88 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin, ResolvedConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import { createHash } from "crypto";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+const PDFJS_ROOT = path.resolve(__dirname, "node_modules/pdfjs-dist");
+// Data pdf.js fetches at runtime: character maps for CJK text and the
+// standard 14 fonts for PDFs that do not embed them
+const PDFJS_ASSET_DIRS = ["cmaps", "standard_fonts"];
+
+// Serves the pdf.js runtime data under <base>pdfjs/ in development and copies
+// it into the build, so the viewer never reaches out to a CDN.
+const pdfjsAssets = (): Plugin => ({
+  name: "pdfjs-assets",
+  configureServer(server) {
+    server.middlewares.use(`${server.config.base}pdfjs`, (req, res, next) => {
+      const relativePath = path.normalize(decodeURIComponent((req.url ?? "").split("?")[0])).replace(/^[/\\]+/, "");
+      const [dir] = relativePath.split(/[/\\]/);
+      const filePath = path.join(PDFJS_ROOT, relativePath);
+      if (!PDFJS_ASSET_DIRS.includes(dir) || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+        next();
+        return;
+      }
+      res.setHeader("Content-Type", "application/octet-stream");
+      fs.createReadStream(filePath).pipe(res);
+    });
+  },
+  generateBundle() {
+    for (const dir of PDFJS_ASSET_DIRS) {
+      for (const file of fs.readdirSync(path.join(PDFJS_ROOT, dir))) {
+        this.emitFile({
+          type: "asset",
+          fileName: `pdfjs/${dir}/${file}`,
+          source: fs.readFileSync(path.join(PDFJS_ROOT, dir, file)),
+        });
+      }
+    }
+  },
+});
+
+// Paths of every file under `dir`, relative to it and "/"-separated
+const listFiles = (dir: string, prefix = ""): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const relativePath = `${prefix}${entry.name}`;
+    if (entry.isDirectory()) return listFiles(path.join(dir, entry.name), `${relativePath}/`);
+    return entry.isFile() ? [relativePath] : [];
+  });
+
+// Emits sw.js from src/service-worker.js with the list of every built and
+// public file to precache, so the installed app works offline. Runs after the
+// other plugins have emitted their files.
+const serviceWorker = (): Plugin => {
+  let config: ResolvedConfig;
+
+  return {
+    name: "service-worker",
+    apply: "build",
+    enforce: "post",
+    configResolved(resolvedConfig) {
+      config = resolvedConfig;
+    },
+    generateBundle(_options, bundle) {
+      const publicFiles = config.publicDir && fs.existsSync(config.publicDir) ? listFiles(config.publicDir) : [];
+      const urls = [...Object.keys(bundle), ...publicFiles].sort().map((fileName) => `${config.base}${fileName}`);
+
+      // Any changed file must produce a new cache, hashed names or not
+      const hash = createHash("sha256");
+      for (const output of Object.values(bundle)) {
+        hash.update(output.fileName).update(output.type === "chunk" ? output.code : output.source);
+      }
+      for (const fileName of publicFiles) {
+        hash.update(fileName).update(fs.readFileSync(path.join(config.publicDir, fileName)));
+      }
+      const version = hash.digest("hex").slice(0, 12);
+
+      const source = fs.readFileSync(path.resolve(__dirname, "src/service-worker.js"), "utf8")
+        .replace("self.__PRECACHE_MANIFEST", JSON.stringify(urls))
+        .replace("self.__PRECACHE_VERSION", JSON.stringify(version));
+      this.emitFile({ type: "asset", fileName: "sw.js", source });
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,6 +91,8 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    pdfjsAssets(),
+    serviceWorker(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),